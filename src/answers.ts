@@ -0,0 +1,289 @@
+import { existsSync, readFileSync } from 'fs'
+import { homedir } from 'os'
+import { extname, join, resolve } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { parseDuration, parseFlags, parseSize } from './args.js'
+import { DATABASE_MODES, SSL_MODES, type DatabaseMode, type SslMode } from './database.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { validateInstanceName } from './instances.js'
+import { PROXY_SERVERS, validateHost, validatePublicUrl, type ProxyServer } from './network.js'
+import { isInteractive } from './output.js'
+import { parsePin, type VersionPin } from './versions.js'
+
+export const DEFAULT_PORT = 3000
+
+export type ExistingAction = 'update' | 'resume' | 'fresh' | 'cancel'
+export type PostgresAction = 'install' | 'require'
+
+export interface InstallAnswers {
+  /** Named instance; absent for the default one */
+  instance?: string
+  installDir?: string
+  port?: number
+  autoStart?: boolean
+  existing?: ExistingAction
+  postgres?: PostgresAction
+  database?: DatabaseMode
+  dbHost?: string
+  dbPort?: number
+  dbUser?: string
+  dbPassword?: string
+  dbName?: string
+  dbSslMode?: SslMode
+  host?: string
+  publicUrl?: string
+  proxy?: ProxyServer | 'none'
+  tlsCert?: string
+  tlsKey?: string
+  /** Generate an admin token; unset means only when the board is reachable from other machines */
+  adminToken?: boolean
+  /** Log rotation limits; unset ones use the defaults */
+  logMaxSize?: number
+  logMaxAge?: number
+  logKeep?: number
+  pin?: VersionPin
+  /** Export archive to load into the new board */
+  importFrom?: string
+  /** Offline bundle to install from instead of cloning */
+  fromBundle?: string
+  /** Git URL or local mirror to clone instead of GitHub */
+  source?: string
+}
+
+export interface InstallOptions {
+  nonInteractive: boolean
+  /** Stream the output of the commands the installer runs */
+  verbose: boolean
+  answers: InstallAnswers
+}
+
+const ENV_PREFIX = 'OPENCLAW_BOARD_'
+
+export function validateInstallDir(value: string | undefined): string | undefined {
+  if (!value) return 'Directory is required'
+  if (existsSync(value)) return 'Directory already exists'
+  return undefined
+}
+
+export function validatePort(value: string | undefined): string | undefined {
+  const num = /^\d+$/.test(value ?? '') ? parseInt(value!, 10) : NaN
+  if (isNaN(num) || num < 1 || num > 65535) {
+    return 'Please enter a valid port (1-65535)'
+  }
+  return undefined
+}
+
+export function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path
+}
+
+function parseBoolean(value: unknown, source: string): boolean {
+  if (typeof value === 'boolean') return value
+  const normalized = String(value).trim().toLowerCase()
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) return true
+  if (['0', 'false', 'no', 'off'].includes(normalized)) return false
+  throw new InstallerError(`${source}: expected yes/no, got "${value}"`, ExitCode.InvalidConfig)
+}
+
+function parseChoice<T extends string>(value: unknown, choices: readonly T[], source: string): T {
+  const normalized = String(value).trim().toLowerCase()
+  if ((choices as readonly string[]).includes(normalized)) return normalized as T
+  throw new InstallerError(`${source}: expected one of ${choices.join(', ')}, got "${value}"`, ExitCode.InvalidConfig)
+}
+
+function parsePort(value: unknown, source: string): number {
+  const error = validatePort(String(value))
+  if (error) throw new InstallerError(`${source}: ${error}`, ExitCode.InvalidConfig)
+  return parseInt(String(value), 10)
+}
+
+function parseValidated(value: unknown, validate: (value: string) => string | undefined, source: string): string {
+  const error = validate(String(value))
+  if (error) throw new InstallerError(`${source}: ${error}`, ExitCode.InvalidConfig)
+  return String(value)
+}
+
+function parseAmount<T>(value: unknown, parse: (text: string) => T | undefined, expected: string, source: string): T {
+  const parsed = parse(String(value).trim())
+  if (parsed === undefined) throw new InstallerError(`${source}: expected ${expected}, got "${value}"`, ExitCode.InvalidConfig)
+  return parsed
+}
+
+const parseCount = (text: string) => /^[1-9]\d*$/.test(text) ? parseInt(text, 10) : undefined
+const parsePositiveSize = (text: string) => parseSize(text) || undefined
+const parsePositiveDuration = (text: string) => parseDuration(text) || undefined
+
+type AnswerKey = Exclude<keyof InstallAnswers, 'pin'> | 'channel' | 'version' | 'ref'
+type RawAnswers = Partial<Record<AnswerKey, unknown>>
+
+type Label = (key: AnswerKey) => string
+
+const kebab = (key: string) => key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)
+const flagLabel: Label = (key) => `--${kebab(key)}`
+const envLabel: Label = (key) => `${ENV_PREFIX}${kebab(key).replace(/-/g, '_').toUpperCase()}`
+const fileLabel: Label = (key) => `answers file "${key}"`
+
+function normalizeAnswers(raw: RawAnswers, label: Label): InstallAnswers {
+  const answers: InstallAnswers = {}
+  if (raw.instance !== undefined) answers.instance = parseValidated(raw.instance, validateInstanceName, label('instance'))
+  if (raw.installDir !== undefined) answers.installDir = resolve(expandHome(String(raw.installDir)))
+  if (raw.port !== undefined) answers.port = parsePort(raw.port, label('port'))
+  if (raw.autoStart !== undefined) answers.autoStart = parseBoolean(raw.autoStart, label('autoStart'))
+  if (raw.existing !== undefined) {
+    answers.existing = parseChoice(raw.existing, ['update', 'resume', 'fresh', 'cancel'] as const, label('existing'))
+  }
+  if (raw.postgres !== undefined) {
+    answers.postgres = parseChoice(raw.postgres, ['install', 'require'] as const, label('postgres'))
+  }
+  if (raw.database !== undefined) answers.database = parseChoice(raw.database, DATABASE_MODES, label('database'))
+  if (raw.dbHost !== undefined) answers.dbHost = String(raw.dbHost)
+  if (raw.dbPort !== undefined) answers.dbPort = parsePort(raw.dbPort, label('dbPort'))
+  if (raw.dbUser !== undefined) answers.dbUser = String(raw.dbUser)
+  if (raw.dbPassword !== undefined) answers.dbPassword = String(raw.dbPassword)
+  if (raw.dbName !== undefined) answers.dbName = String(raw.dbName)
+  if (raw.dbSslMode !== undefined) answers.dbSslMode = parseChoice(raw.dbSslMode, SSL_MODES, label('dbSslMode'))
+  if (raw.host !== undefined) answers.host = parseValidated(raw.host, validateHost, label('host'))
+  if (raw.publicUrl !== undefined) answers.publicUrl = parseValidated(raw.publicUrl, validatePublicUrl, label('publicUrl'))
+  if (raw.proxy !== undefined) answers.proxy = parseChoice(raw.proxy, ['none', ...PROXY_SERVERS] as const, label('proxy'))
+  if (raw.tlsCert !== undefined) answers.tlsCert = resolve(expandHome(String(raw.tlsCert)))
+  if (raw.tlsKey !== undefined) answers.tlsKey = resolve(expandHome(String(raw.tlsKey)))
+  if (raw.adminToken !== undefined) answers.adminToken = parseBoolean(raw.adminToken, label('adminToken'))
+  if (raw.logMaxSize !== undefined) {
+    answers.logMaxSize = parseAmount(raw.logMaxSize, parsePositiveSize, 'a size such as 10M', label('logMaxSize'))
+  }
+  if (raw.logMaxAge !== undefined) {
+    answers.logMaxAge = parseAmount(raw.logMaxAge, parsePositiveDuration, 'a duration such as 7d', label('logMaxAge'))
+  }
+  if (raw.logKeep !== undefined) {
+    answers.logKeep = parseAmount(raw.logKeep, parseCount, 'a whole number of at least 1', label('logKeep'))
+  }
+  const pin = parsePin(raw, [label('channel'), label('version'), label('ref')].join('/'))
+  if (pin) answers.pin = pin
+  if (raw.importFrom !== undefined) answers.importFrom = resolve(expandHome(String(raw.importFrom)))
+  if (raw.fromBundle !== undefined) answers.fromBundle = resolve(expandHome(String(raw.fromBundle)))
+  if (raw.source !== undefined) answers.source = String(raw.source)
+  return answers
+}
+
+function readAnswersFile(path: string): InstallAnswers {
+  let content: string
+  try {
+    content = readFileSync(path, 'utf-8')
+  } catch {
+    throw new InstallerError(`Cannot read answers file: ${path}`, ExitCode.InvalidConfig)
+  }
+
+  let data: unknown
+  try {
+    data = extname(path) === '.json' ? JSON.parse(content) : parseYaml(content)
+  } catch (err) {
+    throw new InstallerError(`Invalid answers file ${path}: ${(err as Error).message}`, ExitCode.InvalidConfig)
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new InstallerError(`Answers file ${path} must contain a key/value object`, ExitCode.InvalidConfig)
+  }
+
+  return normalizeAnswers(data as RawAnswers, fileLabel)
+}
+
+function readAnswersEnv(env: NodeJS.ProcessEnv): InstallAnswers {
+  const keys: AnswerKey[] = [
+    'instance', 'installDir', 'port', 'autoStart', 'existing', 'postgres',
+    'database', 'dbHost', 'dbPort', 'dbUser', 'dbPassword', 'dbName', 'dbSslMode',
+    'host', 'publicUrl', 'proxy', 'tlsCert', 'tlsKey', 'adminToken',
+    'logMaxSize', 'logMaxAge', 'logKeep',
+    'channel', 'version', 'ref', 'importFrom', 'fromBundle', 'source',
+  ]
+  return normalizeAnswers(Object.fromEntries(keys.map((key) => [key, env[envLabel(key)]])), envLabel)
+}
+
+/**
+ * Resolves installer answers from (highest precedence first) CLI flags,
+ * OPENCLAW_BOARD_* environment variables and an answers file.
+ */
+export function parseInstallArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): InstallOptions {
+  const { values } = parseFlags(argv, {
+    'non-interactive': { type: 'boolean' },
+    yes: { type: 'boolean', short: 'y' },
+    json: { type: 'boolean' },
+    verbose: { type: 'boolean' },
+    answers: { type: 'string' },
+    instance: { type: 'string' },
+    'install-dir': { type: 'string' },
+    port: { type: 'string' },
+    'auto-start': { type: 'boolean' },
+    'no-auto-start': { type: 'boolean' },
+    existing: { type: 'string' },
+    postgres: { type: 'string' },
+    database: { type: 'string' },
+    'db-host': { type: 'string' },
+    'db-port': { type: 'string' },
+    'db-user': { type: 'string' },
+    'db-password': { type: 'string' },
+    'db-name': { type: 'string' },
+    'db-ssl-mode': { type: 'string' },
+    host: { type: 'string' },
+    'public-url': { type: 'string' },
+    proxy: { type: 'string' },
+    'tls-cert': { type: 'string' },
+    'tls-key': { type: 'string' },
+    'admin-token': { type: 'boolean' },
+    'no-admin-token': { type: 'boolean' },
+    'log-max-size': { type: 'string' },
+    'log-max-age': { type: 'string' },
+    'log-keep': { type: 'string' },
+    channel: { type: 'string' },
+    version: { type: 'string' },
+    ref: { type: 'string' },
+    'import-from': { type: 'string' },
+    'from-bundle': { type: 'string' },
+    source: { type: 'string' },
+  })
+
+  const answersPath = values.answers ?? env[`${ENV_PREFIX}ANSWERS`]
+  const fromFile = answersPath ? readAnswersFile(resolve(expandHome(answersPath))) : {}
+  const fromEnv = readAnswersEnv(env)
+  const fromFlags = normalizeAnswers({
+    instance: values.instance,
+    installDir: values['install-dir'],
+    port: values.port,
+    autoStart: values['no-auto-start'] ? false : values['auto-start'],
+    existing: values.existing,
+    postgres: values.postgres,
+    database: values.database,
+    dbHost: values['db-host'],
+    dbPort: values['db-port'],
+    dbUser: values['db-user'],
+    dbPassword: values['db-password'],
+    dbName: values['db-name'],
+    dbSslMode: values['db-ssl-mode'],
+    host: values.host,
+    publicUrl: values['public-url'],
+    proxy: values.proxy,
+    tlsCert: values['tls-cert'],
+    tlsKey: values['tls-key'],
+    adminToken: values['no-admin-token'] ? false : values['admin-token'],
+    logMaxSize: values['log-max-size'],
+    logMaxAge: values['log-max-age'],
+    logKeep: values['log-keep'],
+    channel: values.channel,
+    version: values.version,
+    ref: values.ref,
+    importFrom: values['import-from'],
+    fromBundle: values['from-bundle'],
+    source: values.source,
+  }, flagLabel)
+
+  const nonInteractive = Boolean(values['non-interactive'] || values.yes || answersPath || !isInteractive())
+  const answers = { ...fromFile, ...fromEnv, ...fromFlags }
+
+  if (answers.fromBundle && answers.source) {
+    throw new InstallerError('Use either --from-bundle or --source, not both', ExitCode.InvalidConfig)
+  }
+  if (answers.fromBundle && answers.pin) {
+    throw new InstallerError('--from-bundle installs the version in the bundle; drop --channel/--version/--ref', ExitCode.InvalidConfig)
+  }
+
+  return { nonInteractive, verbose: Boolean(values.verbose), answers }
+}
@@ -0,0 +1,83 @@
+import { parseArgs, type ParseArgsConfig } from 'util'
+import { ExitCode, InstallerError } from './errors.js'
+
+type FlagOptions = NonNullable<ParseArgsConfig['options']>
+
+/** `util.parseArgs` with positionals allowed and usage errors mapped to exit code 2. */
+export function parseFlags<const O extends FlagOptions>(argv: string[], options: O) {
+  try {
+    return parseArgs({ args: argv, options, allowPositionals: true })
+  } catch (err) {
+    throw new InstallerError((err as Error).message, ExitCode.Usage)
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }
+
+/** Milliseconds in a duration like `90s`, `15m`, `1h30m` or `7d`. */
+export function parseDuration(text: string): number | undefined {
+  if (!/^(\d+[smhdw])+$/.test(text)) return undefined
+  let total = 0
+  for (const [, amount, unit] of text.matchAll(/(\d+)([smhdw])/g)) {
+    total += parseInt(amount, 10) * DURATION_UNITS[unit]
+  }
+  return total
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }
+
+/** Bytes in a size like `500K`, `10M` or `1G`; a plain number is bytes. */
+export function parseSize(text: string): number | undefined {
+  const match = text.trim().match(/^(\d+)\s*([kmg]?)b?$/i)
+  return match ? parseInt(match[1], 10) * SIZE_UNITS[match[2].toLowerCase()] : undefined
+}
+
+export interface GlobalFlags {
+  instance?: string
+  installDir?: string
+  json?: boolean
+  verbose?: boolean
+}
+
+/**
+ * Pulls the flags every management command accepts out of argv, leaving the
+ * rest for the command's own parser.
+ */
+export function extractGlobalFlags(argv: string[]): { globals: GlobalFlags; rest: string[] } {
+  const globals: GlobalFlags = {}
+  const rest: string[] = []
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--install-dir' || arg === '--instance') {
+      const value = argv[++i]
+      if (value === undefined) throw new InstallerError(`${arg} requires a value`, ExitCode.Usage)
+      globals[arg === '--instance' ? 'instance' : 'installDir'] = value
+    } else if (arg.startsWith('--install-dir=')) {
+      globals.installDir = arg.slice('--install-dir='.length)
+    } else if (arg.startsWith('--instance=')) {
+      globals.instance = arg.slice('--instance='.length)
+    } else if (arg === '--json') {
+      globals.json = true
+    } else if (arg === '--verbose') {
+      globals.verbose = true
+    } else {
+      rest.push(arg)
+    }
+  }
+
+  return { globals, rest }
+}
+
+/**
+ * The command word and the argv it applies to. The global flags may come
+ * before it, so they are skipped when looking for it; with no command word
+ * left, everything is the installer's.
+ */
+export function splitCommand(argv: string[]): { command?: string; args: string[] } {
+  const { rest } = extractGlobalFlags(argv)
+  const command = rest[0]?.startsWith('-') ? undefined : rest[0]
+  if (command === undefined) return { args: argv }
+  const at = argv.indexOf(command)
+  return { command, args: [...argv.slice(0, at), ...argv.slice(at + 1)] }
+}
@@ -0,0 +1,120 @@
+import { randomBytes } from 'crypto'
+import { chmodSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { dirname, join } from 'path'
+import pc from 'picocolors'
+import { parseFlags } from './args.js'
+import { readEnvFile, setEnvValue, writeEnvFile } from './dotenv.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { probeHealth, waitForHealthy } from './health.js'
+import { namedInstance } from './instances.js'
+import { directUrl } from './network.js'
+import type { CommandResult } from './output.js'
+import type { ServiceManager } from './services/index.js'
+import type { InstallState } from './state.js'
+
+/** The .env key the board checks API requests against */
+export const TOKEN_KEY = 'ADMIN_TOKEN'
+
+const CLI_CONFIG_DIR = join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'ocb')
+
+/** Where ocb reads the board URL and token from; named instances get a file of their own */
+export function cliConfigPath(instance?: string): string {
+  const name = namedInstance(instance)
+  return name ? join(CLI_CONFIG_DIR, 'instances', `${name}.json`) : join(CLI_CONFIG_DIR, 'config.json')
+}
+
+export function validateToken(value: string | undefined): string | undefined {
+  if (!value || value.length < 16) return 'Must be at least 16 characters'
+  if (/\s/.test(value)) return 'Must not contain whitespace'
+  return undefined
+}
+
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/** Writes the token to the install's .env, which is kept at mode 600. */
+export function saveToken(installDir: string, token: string): void {
+  const envPath = join(installDir, '.env')
+  const env = readEnvFile(envPath)
+  setEnvValue(env, TOKEN_KEY, token)
+  writeEnvFile(envPath, env)
+}
+
+function readCliConfig(path: string): Record<string, unknown> {
+  try {
+    const config = JSON.parse(readFileSync(path, 'utf-8'))
+    return config && typeof config === 'object' && !Array.isArray(config) ? config : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeCliConfig(path: string, config: Record<string, unknown>): void {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 })
+  chmodSync(path, 0o600)
+}
+
+/** Points ocb at the board and gives it the token; other settings in its config are kept. */
+export function configureCli(install: Pick<InstallState, 'port' | 'host' | 'instance'>, token: string): string {
+  const path = cliConfigPath(install.instance)
+  // ocb runs on this machine, so it talks to the board directly rather than through a proxy
+  writeCliConfig(path, { ...readCliConfig(path), url: directUrl(install), token })
+  return path
+}
+
+/** Removes the token from ocb's config if it is this install's; returns whether it did. */
+export function unconfigureCli(token: string | undefined, instance?: string): boolean {
+  const path = cliConfigPath(instance)
+  const { url: _url, token: current, ...rest } = readCliConfig(path)
+  if (!token || current !== token) return false
+  if (Object.keys(rest).length === 0) rmSync(path, { force: true })
+  else writeCliConfig(path, rest)
+  return true
+}
+
+/**
+ * Replaces the admin token in .env and ocb's config, then restarts the board
+ * so it stops accepting the old one.
+ */
+async function rotateToken(install: InstallState, service: ServiceManager): Promise<CommandResult> {
+  const { installDir, port, host } = install
+  const before = await probeHealth(port, { service, host, token: install.adminToken })
+  const wasRunning = before.state === 'running' || before.state === 'starting' || before.state === 'unhealthy'
+
+  const token = generateToken()
+  saveToken(installDir, token)
+  console.log(pc.green(`✓ Wrote a new ${TOKEN_KEY} to ${join(installDir, '.env')}`))
+  const cliConfig = configureCli(install, token)
+  console.log(pc.green(`✓ Updated ${cliConfig}`))
+
+  if (!wasRunning) {
+    console.log(pc.dim('The board is not running; the new token applies when it starts.'))
+    return { ok: true, rotated: true, cliConfig, restarted: false }
+  }
+
+  console.log('Restarting OpenClaw Board...')
+  await service.restart()
+  const health = await waitForHealthy(port, { service, host, token })
+  if (health.state !== 'running') {
+    console.log(pc.yellow(`Board is ${health.state}${health.detail ? ` (${health.detail})` : ''}; check ${pc.cyan('npx openclaw-board-installer status')}`))
+    return { ok: false, exitCode: ExitCode.Failure, rotated: true, cliConfig, restarted: true, state: health.state, health }
+  }
+  console.log(pc.green('✓ Board restarted with the new token'))
+  console.log(pc.dim(`Show it with: npx openclaw-board-installer config get ${TOKEN_KEY}`))
+  return { ok: true, rotated: true, cliConfig, restarted: true, state: health.state }
+}
+
+export async function runToken(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  const { positionals } = parseFlags(argv, {})
+  const [sub] = positionals
+
+  switch (sub) {
+    case 'rotate':
+      return rotateToken(install, service)
+    default:
+      throw new InstallerError(sub ? `Unknown token command: ${sub} (expected rotate)` : 'Usage: token rotate', ExitCode.Usage)
+  }
+}
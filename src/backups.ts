@@ -0,0 +1,216 @@
+import * as p from '@clack/prompts'
+import { existsSync, readdirSync, rmSync, statSync } from 'fs'
+import { basename, isAbsolute, join, resolve } from 'path'
+import pc from 'picocolors'
+import { parseFlags } from './args.js'
+import { backupDatabase, restoreDatabase, toPgConnection } from './database.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { runCommandAsync } from './exec.js'
+import { probeHealth, waitForHealthy } from './health.js'
+import { isInteractive, type CommandResult } from './output.js'
+import type { ServiceManager } from './services/index.js'
+import type { InstallState } from './state.js'
+
+export const DEFAULT_BACKUP_RETENTION = 10
+
+export interface BackupInfo {
+  file: string
+  name: string
+  size: number
+  createdAt: Date
+}
+
+export function backupDir(installDir: string): string {
+  return join(installDir, 'backups')
+}
+
+/** Backups in the install's backup directory, newest first. */
+export function listBackups(installDir: string): BackupInfo[] {
+  const dir = backupDir(installDir)
+  if (!existsSync(dir)) return []
+
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.dump'))
+    .map(name => {
+      const file = join(dir, name)
+      const stat = statSync(file)
+      return { file, name, size: stat.size, createdAt: stat.mtime }
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+/** Deletes all but the newest `keep` backups; returns what was removed. */
+export function pruneBackups(installDir: string, keep: number): BackupInfo[] {
+  const stale = listBackups(installDir).slice(keep)
+  for (const backup of stale) {
+    rmSync(backup.file, { force: true })
+  }
+  return stale
+}
+
+/** Dumps the database into a timestamped, compressed file under the install. */
+export async function createBackup(installDir: string, databaseUrl: string, label = 'backup'): Promise<BackupInfo> {
+  const { database } = toPgConnection(databaseUrl)
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const file = join(backupDir(installDir), `${label}-${database}-${stamp}.dump`)
+
+  await backupDatabase(databaseUrl, file)
+
+  const stat = statSync(file)
+  return { file, name: basename(file), size: stat.size, createdAt: stat.mtime }
+}
+
+/**
+ * Finds a backup by path or by name inside the backup directory; with no
+ * argument, the newest one.
+ */
+export function findBackup(installDir: string, ref?: string): BackupInfo | null {
+  if (!ref) return listBackups(installDir)[0] ?? null
+
+  const candidates = isAbsolute(ref) || ref.includes('/')
+    ? [resolve(ref)]
+    : [join(backupDir(installDir), ref), join(backupDir(installDir), `${ref}.dump`)]
+
+  for (const file of candidates) {
+    if (existsSync(file)) {
+      const stat = statSync(file)
+      return { file, name: basename(file), size: stat.size, createdAt: stat.mtime }
+    }
+  }
+  return null
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function requireDatabaseUrl(install: InstallState): string {
+  if (!install.databaseUrl) {
+    throw new InstallerError(`No DATABASE_URL found in ${join(install.installDir, '.env')}`, ExitCode.InvalidConfig)
+  }
+  return install.databaseUrl
+}
+
+function parseKeep(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_BACKUP_RETENTION
+  const keep = parseInt(value, 10)
+  if (isNaN(keep) || keep < 1) {
+    throw new InstallerError('--keep must be a positive number', ExitCode.Usage)
+  }
+  return keep
+}
+
+function describeBackup(backup: BackupInfo) {
+  return { file: backup.file, name: backup.name, size: backup.size, createdAt: backup.createdAt.toISOString() }
+}
+
+export async function runBackup(install: InstallState, argv: string[]): Promise<CommandResult> {
+  const { values } = parseFlags(argv, { keep: { type: 'string' } })
+  const keep = parseKeep(values.keep)
+  const databaseUrl = requireDatabaseUrl(install)
+
+  console.log('Backing up database...')
+  const backup = await createBackup(install.installDir, databaseUrl)
+  console.log(pc.green(`✓ Backup written: ${backup.file} (${formatSize(backup.size)})`))
+
+  const pruned = pruneBackups(install.installDir, keep)
+  if (pruned.length > 0) {
+    console.log(pc.dim(`Pruned ${pruned.length} old backup${pruned.length === 1 ? '' : 's'} (keeping ${keep})`))
+  }
+  return { ok: true, backup: describeBackup(backup), pruned: pruned.map(describeBackup) }
+}
+
+export async function runBackups(install: InstallState, argv: string[]): Promise<CommandResult> {
+  const { values, positionals } = parseFlags(argv, { keep: { type: 'string' } })
+  const sub = positionals[0] ?? 'list'
+
+  if (sub === 'prune') {
+    const keep = parseKeep(values.keep)
+    const pruned = pruneBackups(install.installDir, keep)
+    console.log(pc.green(`✓ Pruned ${pruned.length} backup${pruned.length === 1 ? '' : 's'} (keeping ${keep})`))
+    return { ok: true, pruned: pruned.map(describeBackup) }
+  }
+
+  if (sub !== 'list') {
+    throw new InstallerError(`Unknown backups command: ${sub} (expected list or prune)`, ExitCode.Usage)
+  }
+
+  const backups = listBackups(install.installDir)
+  if (backups.length === 0) {
+    console.log(pc.yellow('No backups yet.'))
+    console.log(`Create one: ${pc.cyan('npx openclaw-board-installer backup')}`)
+    return { ok: true, backups: [] }
+  }
+
+  console.log(pc.bold(`\nBackups in ${backupDir(install.installDir)}\n`))
+  const width = Math.max(...backups.map(b => b.name.length))
+  for (const backup of backups) {
+    const when = backup.createdAt.toLocaleString()
+    console.log(`  ${pc.cyan(backup.name.padEnd(width))}  ${formatSize(backup.size).padStart(9)}  ${pc.dim(when)}`)
+  }
+  console.log('')
+  return { ok: true, backups: backups.map(describeBackup) }
+}
+
+export async function runRestore(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  const { values, positionals } = parseFlags(argv, { yes: { type: 'boolean', short: 'y' } })
+  const databaseUrl = requireDatabaseUrl(install)
+
+  const backup = findBackup(install.installDir, positionals[0])
+  if (!backup) {
+    throw new InstallerError(
+      positionals[0] ? `Backup not found: ${positionals[0]}` : 'No backups to restore from',
+      ExitCode.InvalidConfig,
+    )
+  }
+
+  console.log(`Restoring ${pc.cyan(backup.name)} (${backup.createdAt.toLocaleString()})`)
+  console.log(pc.yellow('This replaces all current board data.'))
+
+  if (!values.yes) {
+    if (!isInteractive()) {
+      throw new InstallerError('Refusing to restore without confirmation; pass --yes', ExitCode.Usage)
+    }
+    const proceed = await p.confirm({ message: 'Restore this backup?', initialValue: false })
+    if (p.isCancel(proceed) || !proceed) {
+      p.outro(pc.yellow('Cancelled.'))
+      return { ok: false, cancelled: true }
+    }
+  }
+
+  const before = await probeHealth(install.port, { service, host: install.host, token: install.adminToken })
+  const wasRunning = before.state !== 'stopped' && before.state !== 'foreign'
+  if (wasRunning) {
+    console.log('Stopping OpenClaw Board...')
+    await service.stop().catch(() => {
+      // Not running
+    })
+  }
+
+  try {
+    console.log('Restoring database...')
+    await restoreDatabase(databaseUrl, backup.file)
+    console.log(pc.green('✓ Database restored'))
+
+    console.log('Generating Prisma client...')
+    await runCommandAsync('npx', ['prisma', 'generate'], { cwd: install.installDir })
+  } finally {
+    // pg_restore runs in one transaction, so after a failure the old data is still there to serve
+    if (wasRunning) {
+      console.log('Starting OpenClaw Board...')
+      await service.start()
+    }
+  }
+
+  if (!wasRunning) return { ok: true, backup: describeBackup(backup), state: before.state }
+
+  const health = await waitForHealthy(install.port, { service, host: install.host, token: install.adminToken })
+  if (health.state === 'running') {
+    console.log(pc.green('✓ Board restarted'))
+  } else {
+    console.log(pc.yellow(`Board is ${health.state}; check ${pc.cyan('npx openclaw-board-installer status')}`))
+  }
+  return { ok: true, backup: describeBackup(backup), state: health.state }
+}
@@ -0,0 +1,288 @@
+import { cpSync, existsSync, mkdtempSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join, resolve } from 'path'
+import pc from 'picocolors'
+import { expandHome } from './answers.js'
+import { parseFlags } from './args.js'
+import { formatSize } from './backups.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { runCommand, runCommandAsync } from './exec.js'
+import type { CommandResult } from './output.js'
+import { describeCheckout } from './state.js'
+import {
+  REPO_URL,
+  checkoutTarget,
+  describePin,
+  describeTarget,
+  listRemoteRefs,
+  parsePin,
+  resolveTarget,
+  type VersionPin,
+} from './versions.js'
+
+/**
+ * A bundle is a gzipped tarball holding bundle.json and a `board/` checkout
+ * with its node_modules, the Prisma client and engines, and cli/ with its
+ * own node_modules, so a machine without internet access can install from
+ * it. Native modules and engines only run where they were built, so a bundle
+ * is tied to the platform and CPU architecture of the machine that made it.
+ */
+export const BUNDLE_FORMAT = 'openclaw-board-bundle'
+export const BUNDLE_VERSION = 1
+
+const MANIFEST = 'bundle.json'
+const CHECKOUT = 'board'
+
+/** Directories the bundle's checkout brings with it, relative to the install */
+const DEPENDENCY_DIRS = ['node_modules', join('cli', 'node_modules')]
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT
+  formatVersion: number
+  createdAt: string
+  /** Repository the checkout was cloned from */
+  source: string
+  pin?: VersionPin
+  target: string
+  commit: string
+  version?: string
+  platform: NodeJS.Platform
+  arch: string
+  /** Node.js major version the dependencies were installed with */
+  node: number
+}
+
+export interface UnpackedBundle {
+  dir: string
+  manifest: BundleManifest
+  /** The board checkout inside `dir` */
+  checkout: string
+}
+
+const nodeMajor = () => parseInt(process.versions.node, 10)
+
+export function checkManifest(data: unknown, file: string): BundleManifest {
+  const invalid = (reason: string) => new InstallerError(`Invalid bundle ${file}: ${reason}`, ExitCode.InvalidConfig)
+  const manifest = data as Partial<BundleManifest> | null
+  if (!manifest || typeof manifest !== 'object' || manifest.format !== BUNDLE_FORMAT) {
+    throw invalid('not an OpenClaw Board bundle')
+  }
+  if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > BUNDLE_VERSION) {
+    throw invalid(`format version ${manifest.formatVersion} is not supported by this installer; update the installer`)
+  }
+  if (typeof manifest.commit !== 'string' || typeof manifest.platform !== 'string' || typeof manifest.arch !== 'string') {
+    throw invalid('incomplete manifest')
+  }
+  if (manifest.platform !== process.platform || manifest.arch !== process.arch) {
+    throw new InstallerError(
+      `Bundle ${file} was built for ${manifest.platform}-${manifest.arch} and cannot run on ${process.platform}-${process.arch}; ` +
+      'build one on a machine like this with the bundle command',
+      ExitCode.InvalidConfig,
+    )
+  }
+  return manifest as BundleManifest
+}
+
+/** Reads and checks a bundle's manifest without unpacking the rest. */
+export function readBundleManifest(file: string): BundleManifest {
+  if (!existsSync(file)) throw new InstallerError(`Bundle not found: ${file}`, ExitCode.InvalidConfig)
+
+  const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-bundle-'))
+  try {
+    try {
+      runCommand('tar', ['-xzf', file, '-C', dir, MANIFEST])
+    } catch (err) {
+      throw new InstallerError(`Cannot read bundle ${file}: ${(err as Error).message}`, ExitCode.InvalidConfig)
+    }
+    let data: unknown
+    try {
+      data = JSON.parse(readFileSync(join(dir, MANIFEST), 'utf-8'))
+    } catch (err) {
+      throw new InstallerError(`Invalid bundle ${file}: ${(err as Error).message}`, ExitCode.InvalidConfig)
+    }
+    return checkManifest(data, file)
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+export function describeBundle(manifest: BundleManifest): string {
+  return `${manifest.target} at ${manifest.commit.slice(0, 7)}, built ${manifest.createdAt.slice(0, 10)}`
+}
+
+/** A warning if the bundle's dependencies were installed with another Node.js major version. */
+export function nodeMismatch(manifest: BundleManifest): string | undefined {
+  if (manifest.node === nodeMajor()) return undefined
+  return `The bundle was built with Node.js ${manifest.node} but this is Node.js ${nodeMajor()}; native modules may fail to load`
+}
+
+/** Unpacks a bundle into a temporary directory; remove it with discardBundle. */
+export async function unpackBundle(file: string): Promise<UnpackedBundle> {
+  const manifest = readBundleManifest(file)
+  const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-bundle-'))
+  try {
+    await runCommandAsync('tar', ['-xzf', file, '-C', dir])
+  } catch (err) {
+    rmSync(dir, { recursive: true, force: true })
+    throw err
+  }
+  const checkout = join(dir, CHECKOUT)
+  if (!existsSync(join(checkout, '.git'))) {
+    rmSync(dir, { recursive: true, force: true })
+    throw new InstallerError(`Invalid bundle ${file}: no board checkout inside`, ExitCode.InvalidConfig)
+  }
+  return { dir, manifest, checkout }
+}
+
+export function discardBundle(bundle: UnpackedBundle): void {
+  rmSync(bundle.dir, { recursive: true, force: true })
+}
+
+/** Renames a directory, copying instead when the target is on another filesystem. */
+function moveDir(from: string, to: string): void {
+  try {
+    renameSync(from, to)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err
+    cpSync(from, to, { recursive: true, verbatimSymlinks: true })
+    rmSync(from, { recursive: true, force: true })
+  }
+}
+
+/** Moves the bundle's checkout, dependencies included, to become the install directory. */
+export function installFromBundle(bundle: UnpackedBundle, installDir: string): void {
+  moveDir(bundle.checkout, installDir)
+}
+
+/** Moves the commit into the install's repository and checks it out. */
+export async function checkoutFromBundle(installDir: string, bundle: UnpackedBundle): Promise<void> {
+  await runCommandAsync('git', ['fetch', '--tags', bundle.checkout, 'HEAD'], { cwd: installDir })
+  await runCommandAsync('git', ['checkout', '--detach', bundle.manifest.commit], { cwd: installDir })
+}
+
+const savedDir = (installDir: string, dir: string) => join(installDir, `${dir}.pre-update`)
+
+/**
+ * Swaps the install's dependencies for the bundle's. The old ones are kept
+ * beside them until the update is settled, since there's no registry to
+ * reinstall them from.
+ */
+export function swapDependencies(installDir: string, bundle: UnpackedBundle): void {
+  for (const dir of DEPENDENCY_DIRS) {
+    const from = join(bundle.checkout, dir)
+    if (!existsSync(from)) continue
+    const current = join(installDir, dir)
+    rmSync(savedDir(installDir, dir), { recursive: true, force: true })
+    if (existsSync(current)) renameSync(current, savedDir(installDir, dir))
+    moveDir(from, current)
+  }
+}
+
+/** Puts back the dependencies swapDependencies set aside. */
+export function restoreDependencies(installDir: string): void {
+  for (const dir of DEPENDENCY_DIRS) {
+    const saved = savedDir(installDir, dir)
+    if (!existsSync(saved)) continue
+    rmSync(join(installDir, dir), { recursive: true, force: true })
+    renameSync(saved, join(installDir, dir))
+  }
+}
+
+export function discardSavedDependencies(installDir: string): void {
+  for (const dir of DEPENDENCY_DIRS) {
+    rmSync(savedDir(installDir, dir), { recursive: true, force: true })
+  }
+}
+
+/**
+ * Checks out the board at the pin from `source` in a scratch directory,
+ * installs everything it needs to run, and packs it into `file`.
+ */
+export async function createBundle(
+  file: string,
+  options: { source: string; pin?: VersionPin; onProgress?: (message: string) => void },
+): Promise<BundleManifest> {
+  const { source, pin, onProgress } = options
+  const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-bundle-'))
+  const checkout = join(dir, CHECKOUT)
+
+  try {
+    onProgress?.(`Resolving ${describePin(pin)}...`)
+    const target = resolveTarget(pin, pin ? listRemoteRefs(source) : undefined)
+
+    onProgress?.(`Cloning ${source}...`)
+    await runCommandAsync('git', ['clone', source, checkout])
+    if (pin) {
+      onProgress?.(`Checking out ${describeTarget(target)}...`)
+      await checkoutTarget(checkout, target)
+    }
+
+    onProgress?.('Installing dependencies...')
+    await runCommandAsync('npm', ['install'], { cwd: checkout })
+    // Downloads the engines for this platform along with the client
+    onProgress?.('Generating Prisma client...')
+    await runCommandAsync('npx', ['prisma', 'generate'], { cwd: checkout })
+
+    const cliDir = join(checkout, 'cli')
+    if (existsSync(cliDir)) {
+      onProgress?.('Installing ocb CLI dependencies...')
+      await runCommandAsync('npm', ['install'], { cwd: cliDir })
+    }
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      formatVersion: BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      source,
+      ...(pin && { pin }),
+      target: describeTarget(target),
+      commit: runCommand('git', ['rev-parse', 'HEAD'], { cwd: checkout }),
+      version: describeCheckout(checkout).version,
+      platform: process.platform,
+      arch: process.arch,
+      node: nodeMajor(),
+    }
+    writeFileSync(join(dir, MANIFEST), JSON.stringify(manifest, null, 2) + '\n')
+
+    onProgress?.(`Packing ${file}...`)
+    await runCommandAsync('tar', ['-czf', file, '-C', dir, MANIFEST, CHECKOUT])
+    return manifest
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+export async function runBundle(argv: string[]): Promise<CommandResult> {
+  const { values } = parseFlags(argv, {
+    output: { type: 'string', short: 'o' },
+    source: { type: 'string' },
+    channel: { type: 'string' },
+    version: { type: 'string' },
+    ref: { type: 'string' },
+  })
+  const pin = parsePin(values, '--channel/--version/--ref')
+  const source = values.source ? resolveSource(values.source) : REPO_URL
+
+  const name = `openclaw-board-${(pin?.version ?? pin?.ref ?? pin?.channel ?? 'main').replace(/[^\w.-]/g, '_')}-${process.platform}-${process.arch}.tar.gz`
+  const file = resolve(expandHome(values.output ?? name))
+  if (!existsSync(dirname(file))) {
+    throw new InstallerError(`Directory does not exist: ${dirname(file)}`, ExitCode.InvalidConfig)
+  }
+
+  console.log(`Building an offline bundle of ${describePin(pin)} from ${source}`)
+  const manifest = await createBundle(file, { source, pin, onProgress: (message) => console.log(pc.dim(message)) })
+
+  const { size } = statSync(file)
+  console.log(pc.green(`✓ Bundle written: ${file} (${formatSize(size)})`))
+  console.log(`Contains ${describeBundle(manifest)}, for ${manifest.platform}-${manifest.arch} with Node.js ${manifest.node}`)
+  console.log(pc.dim(`Install with: npx openclaw-board-installer install --from-bundle ${file}`))
+  return { ok: true, file, size, manifest }
+}
+
+/** A git URL as given, or a local mirror path made absolute. */
+export function resolveSource(source: string): string {
+  if (/^[\w+.-]+:\/\//.test(source) || /^[^/]+@[^/]+:/.test(source)) return source
+  const path = resolve(expandHome(source))
+  if (!existsSync(path)) throw new InstallerError(`Git mirror not found: ${path}`, ExitCode.InvalidConfig)
+  return path
+}
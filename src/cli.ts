@@ -1,18 +1,39 @@
 #!/usr/bin/env node
 
+import { splitCommand } from './args.js'
+import { ExitCode, InstallerError } from './errors.js'
 import { runInstaller } from './installer.js'
 import { runManage } from './manage.js'
+import { enableJsonMode, failure, isJsonMode, printJson, wantsJson } from './output.js'
 
-const command = process.argv[2]
+if (wantsJson(process.argv.slice(2))) enableJsonMode()
 
-if (!command || command === 'install') {
-  runInstaller().catch((err) => {
-    console.error('Installation failed:', err.message)
-    process.exit(1)
-  })
+function exitCodeFor(err: unknown): number {
+  return err instanceof InstallerError ? err.exitCode : ExitCode.Failure
+}
+
+function fail(name: string, prefix: string, err: Error): never {
+  const exitCode = exitCodeFor(err)
+  if (isJsonMode()) {
+    printJson(name, failure(err.message, exitCode))
+  } else {
+    console.error(prefix, err.message)
+  }
+  process.exit(exitCode)
+}
+
+let parsed: ReturnType<typeof splitCommand>
+try {
+  parsed = splitCommand(process.argv.slice(2))
+} catch (err) {
+  fail(process.argv[2] ?? 'install', 'Error:', err as Error)
+}
+const { command, args } = parsed
+
+if (!command && (args[0] === '--help' || args[0] === '-h')) {
+  runManage('help').catch((err) => fail('help', 'Error:', err))
+} else if (!command || command === 'install') {
+  runInstaller(args).catch((err) => fail('install', 'Installation failed:', err))
 } else {
-  runManage(command).catch((err) => {
-    console.error('Error:', err.message)
-    process.exit(1)
-  })
+  runManage(command, args).catch((err) => fail(command, 'Error:', err))
 }
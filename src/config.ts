@@ -0,0 +1,205 @@
+import * as p from '@clack/prompts'
+import { join } from 'path'
+import pc from 'picocolors'
+import { validatePort } from './answers.js'
+import { parseFlags } from './args.js'
+import { TOKEN_KEY, configureCli, validateToken } from './auth.js'
+import { envEntries, getEnvValue, readEnvFile, setEnvValue, writeEnvFile } from './dotenv.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { probeHealth, waitForHealthy } from './health.js'
+import { boardUrl, validateHost, validatePublicUrl, writeProxyConfig } from './network.js'
+import { isInteractive, type CommandResult } from './output.js'
+import { checkPortConflict, formatPortConflict } from './ports.js'
+import { selectServiceManager, type ServiceManager } from './services/index.js'
+import { resolveInstall, updateState, type InstallState } from './state.js'
+
+interface KeySpec {
+  description: string
+  validate?: (value: string) => string | undefined
+  /** The running board only reads the value at startup */
+  restart?: boolean
+  /** The value is baked into the launchd plist or systemd unit */
+  service?: boolean
+  secret?: boolean
+}
+
+function validateDatabaseUrl(value: string): string | undefined {
+  try {
+    const url = new URL(value)
+    if (url.protocol !== 'postgresql:' && url.protocol !== 'postgres:') return 'Must be a postgresql:// URL'
+    if (url.pathname.length <= 1) return 'Must include a database name'
+    return undefined
+  } catch {
+    return 'Not a valid URL'
+  }
+}
+
+export const KNOWN_KEYS: Record<string, KeySpec> = {
+  PORT: { description: 'Port the board listens on', validate: validatePort, restart: true, service: true },
+  DATABASE_URL: { description: 'PostgreSQL connection URL', validate: validateDatabaseUrl, restart: true, secret: true },
+  HOST: { description: 'Address the board binds to (0.0.0.0 for all interfaces)', validate: validateHost, restart: true, service: true },
+  PUBLIC_URL: { description: 'URL the board is opened at', validate: validatePublicUrl, restart: true },
+  [TOKEN_KEY]: { description: 'Token the board API requires; ocb is configured with it', validate: validateToken, restart: true, secret: true },
+}
+
+const SECRET_NAME = /(SECRET|TOKEN|PASSWORD|_KEY)$/
+
+function mask(key: string, value: string): string {
+  if (key === 'DATABASE_URL') {
+    try {
+      const url = new URL(value)
+      if (url.password) url.password = '****'
+      return url.toString()
+    } catch {
+      return '****'
+    }
+  }
+  return KNOWN_KEYS[key]?.secret || SECRET_NAME.test(key) ? '****' : value
+}
+
+async function isBoardUp(install: InstallState, service: ServiceManager): Promise<boolean> {
+  const health = await probeHealth(install.port, { service, host: install.host, token: install.adminToken })
+  return health.state === 'running' || health.state === 'starting' || health.state === 'unhealthy'
+}
+
+/** Points the generated proxy config at the board's new address. */
+function updateProxy(install: InstallState, key: string): void {
+  const proxy = install.proxy!
+  if (!install.publicUrl) {
+    console.log(pc.yellow(`PUBLIC_URL is not set; ${proxy.config} was left unchanged.`))
+    return
+  }
+  if (key === 'PUBLIC_URL') {
+    console.log(pc.yellow(`If the host name changed, ${proxy.cert} needs to be reissued for it.`))
+  }
+  writeProxyConfig(install.installDir, { ...install, publicUrl: install.publicUrl }, proxy, install.instance)
+  console.log(pc.green(`✓ Updated ${proxy.config}`))
+  console.log(`Reload ${proxy.server} to apply it.`)
+}
+
+async function confirmApply(message: string, flags: { restart?: boolean; 'no-restart'?: boolean }): Promise<boolean> {
+  if (flags.restart) return true
+  if (flags['no-restart'] || !isInteractive()) return false
+  const answer = await p.confirm({ message, initialValue: true })
+  return !p.isCancel(answer) && answer
+}
+
+async function applyChange(
+  install: InstallState,
+  next: InstallState,
+  service: ServiceManager,
+  spec: KeySpec,
+  flags: { restart?: boolean; 'no-restart'?: boolean },
+): Promise<{ regenerated: boolean; restarted: boolean; pending: boolean }> {
+  const regenerate = Boolean(spec.service && service.autoStart && service.isInstalled())
+  const restart = Boolean(spec.restart && await isBoardUp(install, service))
+
+  // The new port or host has to reach the service definition and the health probe.
+  // The definition always follows .env, so the next start or login picks the value up
+  const nextService = selectServiceManager(next, { backend: install.service })
+  if (regenerate) {
+    await nextService.install()
+    console.log(pc.green(`✓ Regenerated ${nextService.definitionPath ?? `${nextService.name} service`}`))
+  }
+  if (!restart) return { regenerated: regenerate, restarted: false, pending: false }
+
+  if (!await confirmApply('Restart the board to apply the change?', flags)) {
+    console.log(pc.yellow('The change takes effect after a restart.'))
+    console.log(`Restart with ${pc.cyan('npx openclaw-board-installer restart')}`)
+    return { regenerated: regenerate, restarted: false, pending: true }
+  }
+
+  console.log('Restarting OpenClaw Board...')
+  if (next.port !== install.port) {
+    // The old process is still bound to the previous port
+    await service.stop().catch(() => {})
+    await nextService.start()
+  } else {
+    await nextService.restart()
+  }
+  const health = await waitForHealthy(next.port, { service: nextService, host: next.host, token: next.adminToken })
+  console.log(health.state === 'running'
+    ? pc.green(`✓ Board restarted on ${boardUrl(next)}`)
+    : pc.yellow(`Board is ${health.state}; check ${pc.cyan('npx openclaw-board-installer status')}`))
+  return { regenerated: regenerate, restarted: true, pending: false }
+}
+
+export async function runConfig(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  const { values, positionals } = parseFlags(argv, {
+    'show-secrets': { type: 'boolean' },
+    restart: { type: 'boolean' },
+    'no-restart': { type: 'boolean' },
+  })
+  const [sub = 'list', key, value] = positionals
+  const envPath = join(install.installDir, '.env')
+  const env = readEnvFile(envPath)
+
+  switch (sub) {
+    case 'list': {
+      const entries = envEntries(env)
+      const shown = (name: string, raw: string) => values['show-secrets'] ? raw : mask(name, raw)
+      if (entries.size === 0) {
+        console.log(pc.yellow(`No settings in ${envPath}`))
+        return { ok: true, settings: {} }
+      }
+      console.log(pc.bold(`\nSettings in ${envPath}\n`))
+      const width = Math.max(...[...entries.keys()].map(k => k.length))
+      for (const [name, raw] of entries) {
+        const description = KNOWN_KEYS[name] ? pc.dim(`  # ${KNOWN_KEYS[name].description}`) : ''
+        console.log(`  ${pc.cyan(name.padEnd(width))}  ${shown(name, raw)}${description}`)
+      }
+      console.log('')
+      return { ok: true, settings: Object.fromEntries([...entries].map(([name, raw]) => [name, shown(name, raw)])) }
+    }
+
+    case 'get': {
+      if (!key) throw new InstallerError('Usage: config get <KEY>', ExitCode.Usage)
+      const current = getEnvValue(env, key)
+      if (current === undefined) throw new InstallerError(`${key} is not set in ${envPath}`)
+      console.log(current)
+      return { ok: true, key, value: current }
+    }
+
+    case 'set': {
+      if (!key || value === undefined) throw new InstallerError('Usage: config set <KEY> <VALUE>', ExitCode.Usage)
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new InstallerError(`Invalid key name: ${key}`, ExitCode.Usage)
+      }
+
+      const spec: KeySpec = KNOWN_KEYS[key] ?? { description: '', restart: true }
+      const error = spec.validate?.(value)
+      if (error) throw new InstallerError(`${key}: ${error}`, ExitCode.InvalidConfig)
+
+      // Same preflight as the installer: a board moved onto a taken port could not bind
+      if (key === 'PORT' && parseInt(value, 10) !== install.port) {
+        const conflict = await checkPortConflict(parseInt(value, 10))
+        if (conflict) {
+          const hint = conflict.suggestion ? `port ${conflict.suggestion} is free` : 'choose another port'
+          throw new InstallerError(`${formatPortConflict(conflict)}; ${hint}`, ExitCode.InvalidConfig)
+        }
+      }
+
+      if (getEnvValue(env, key) === value) {
+        console.log(pc.dim(`${key} is already ${values['show-secrets'] ? value : mask(key, value)}`))
+        return { ok: true, key, changed: false }
+      }
+
+      setEnvValue(env, key, value)
+      writeEnvFile(envPath, env)
+      console.log(pc.green(`✓ Set ${key} in ${envPath}`))
+
+      const next = { ...install, ...resolveInstall(install.installDir, install.instance) }
+      if (key === 'PORT') updateState(install, { port: next.port })
+      if (key === 'DATABASE_URL') updateState(install, { databaseUrl: value })
+      if (next.proxy && (key === 'PORT' || key === 'HOST' || key === 'PUBLIC_URL')) updateProxy(next, key)
+      if (next.adminToken && (key === TOKEN_KEY || key === 'PORT' || key === 'HOST')) {
+        console.log(pc.green(`✓ Updated ${configureCli(next, next.adminToken)}`))
+      }
+
+      return { ok: true, key, changed: true, ...await applyChange(install, next, service, spec, values) }
+    }
+
+    default:
+      throw new InstallerError(`Unknown config command: ${sub} (expected list, get or set)`, ExitCode.Usage)
+  }
+}
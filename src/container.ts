@@ -0,0 +1,140 @@
+import { randomBytes } from 'crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { buildDatabaseUrl } from './database.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { commandExists, runCommand, runCommandAsync } from './exec.js'
+import { instanceSlug } from './instances.js'
+import { findFreePort } from './ports.js'
+
+export const CONTAINER_IMAGE = 'postgres:17'
+
+const CONTAINER_USER = 'openclaw'
+const CONTAINER_DATABASE = 'openclaw_board'
+
+export type ContainerRuntime = 'docker' | 'podman'
+
+export interface PostgresContainer {
+  runtime: ContainerRuntime
+  container: string
+  volume: string
+  databaseUrl: string
+}
+
+/** Docker if it is installed, otherwise Podman. */
+export function detectContainerRuntime(): ContainerRuntime | null {
+  if (commandExists('docker')) return 'docker'
+  if (commandExists('podman')) return 'podman'
+  return null
+}
+
+function containerExists(runtime: ContainerRuntime, name: string): boolean {
+  try {
+    runCommand(runtime, ['container', 'inspect', name], { quiet: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function waitForReady(runtime: ContainerRuntime, name: string, deadlineMs = 60_000): Promise<void> {
+  const deadline = Date.now() + deadlineMs
+  while (Date.now() < deadline) {
+    try {
+      runCommand(runtime, ['exec', name, 'pg_isready', '-U', CONTAINER_USER, '-d', CONTAINER_DATABASE], { timeout: 10_000 })
+      return
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 1000))
+    }
+  }
+  throw new Error(`PostgreSQL in container ${name} did not become ready within ${deadlineMs / 1000}s`)
+}
+
+/**
+ * Starts a PostgreSQL container bound to localhost with a generated
+ * password. Data lives in a named volume so the container can be
+ * recreated without losing tasks. `onCreated` hears about the container
+ * as soon as it exists, before it is ready.
+ */
+export async function startPostgresContainer(
+  runtime: ContainerRuntime,
+  instance?: string,
+  onCreated?: (container: PostgresContainer) => void,
+): Promise<PostgresContainer> {
+  const container = `${instanceSlug(instance)}-postgres`
+  const volume = `${instanceSlug(instance)}-pgdata`
+  if (containerExists(runtime, container)) {
+    throw new InstallerError(
+      `A container named ${container} already exists. Remove it with "${runtime} rm -f ${container}" or choose another database option.`,
+      ExitCode.ExistingInstall,
+    )
+  }
+
+  const port = await findFreePort(5432)
+  if (!port) {
+    throw new InstallerError('No free port found for PostgreSQL between 5432 and 5531', ExitCode.Failure)
+  }
+  const password = randomBytes(18).toString('base64url')
+
+  // Passed through a private env file so the password never shows up in the process list
+  const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-'))
+  const envFile = join(dir, 'postgres.env')
+  writeFileSync(envFile, `POSTGRES_USER=${CONTAINER_USER}\nPOSTGRES_PASSWORD=${password}\nPOSTGRES_DB=${CONTAINER_DATABASE}\n`, { mode: 0o600 })
+
+  try {
+    // Pulls the image on first use, which can take a while
+    await runCommandAsync(runtime, [
+      'run', '--detach',
+      '--name', container,
+      '--restart', 'unless-stopped',
+      '--env-file', envFile,
+      '--publish', `127.0.0.1:${port}:5432`,
+      '--volume', `${volume}:/var/lib/postgresql/data`,
+      CONTAINER_IMAGE,
+    ])
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+
+  const created = {
+    runtime,
+    container,
+    volume,
+    databaseUrl: buildDatabaseUrl({
+      host: '127.0.0.1',
+      port,
+      user: CONTAINER_USER,
+      password,
+      database: CONTAINER_DATABASE,
+    }),
+  }
+  onCreated?.(created)
+
+  await waitForReady(runtime, container)
+  return created
+}
+
+/** Starts a container made by an earlier, interrupted install and waits for it. */
+export async function resumePostgresContainer(runtime: ContainerRuntime, container: string): Promise<void> {
+  runCommand(runtime, ['start', container])
+  await waitForReady(runtime, container)
+}
+
+/** Removes the container, and its data volume unless `keepVolume`. */
+export function removePostgresContainer(
+  runtime: ContainerRuntime,
+  container: string,
+  volume: string | undefined,
+  options: { keepVolume?: boolean } = {},
+): void {
+  try {
+    runCommand(runtime, ['rm', '--force', container])
+  } catch (err) {
+    // Already gone; its volume may still be there
+    if (containerExists(runtime, container)) throw err
+  }
+  if (volume && !options.keepVolume) {
+    runCommand(runtime, ['volume', 'rm', volume])
+  }
+}
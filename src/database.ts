@@ -0,0 +1,147 @@
+import { mkdirSync } from 'fs'
+import net from 'net'
+import { dirname } from 'path'
+import { CommandError, commandExists, runCommand, runCommandAsync } from './exec.js'
+
+export const DATABASE_MODES = ['local', 'external', 'docker'] as const
+export type DatabaseMode = typeof DATABASE_MODES[number]
+
+// The modes both Prisma and libpq understand
+export const SSL_MODES = ['disable', 'prefer', 'require'] as const
+export type SslMode = typeof SSL_MODES[number]
+
+export interface DatabaseSettings {
+  host: string
+  port: number
+  user: string
+  password?: string
+  database: string
+  sslMode?: SslMode
+  /** Unix socket directory; the host is then only used for display */
+  socketDir?: string
+}
+
+// Query parameters Prisma understands but libpq tools reject
+const PRISMA_ONLY_PARAMS = ['schema', 'connection_limit', 'pool_timeout', 'socket_timeout', 'pgbouncer', 'statement_cache_size']
+
+export interface PgConnection {
+  /** libpq connection URI without the password */
+  uri: string
+  env: NodeJS.ProcessEnv
+  database: string
+}
+
+/**
+ * Turns a Prisma DATABASE_URL into something pg_dump/pg_restore/psql accept.
+ * The password moves into PGPASSWORD so it never appears in a process list.
+ */
+export function toPgConnection(databaseUrl: string): PgConnection {
+  const url = new URL(databaseUrl)
+  for (const param of PRISMA_ONLY_PARAMS) {
+    url.searchParams.delete(param)
+  }
+
+  const env = { ...process.env }
+  if (url.password) {
+    env.PGPASSWORD = decodeURIComponent(url.password)
+    url.password = ''
+  }
+
+  return { uri: url.toString(), env, database: decodeURIComponent(url.pathname.slice(1)) }
+}
+
+/** Builds a Prisma DATABASE_URL with every component percent-encoded. */
+export function buildDatabaseUrl(settings: DatabaseSettings): string {
+  const auth = encodeURIComponent(settings.user) + (settings.password ? `:${encodeURIComponent(settings.password)}` : '')
+  const host = settings.host.includes(':') ? `[${settings.host}]` : settings.host
+  const params = new URLSearchParams({ schema: 'public' })
+  if (settings.sslMode) params.set('sslmode', settings.sslMode)
+  if (settings.socketDir) params.set('host', settings.socketDir)
+  return `postgresql://${auth}@${host}:${settings.port}/${encodeURIComponent(settings.database)}?${params}`
+}
+
+/** user@host:port/database — safe to print, never includes the password. */
+export function describeDatabaseUrl(databaseUrl: string): string {
+  const url = new URL(databaseUrl)
+  const user = url.username ? `${decodeURIComponent(url.username)}@` : ''
+  return `${user}${url.hostname}:${url.port || 5432}/${decodeURIComponent(url.pathname.slice(1))}`
+}
+
+function canConnect(host: string, port: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port, timeout: timeoutMs })
+    const done = (ok: boolean) => {
+      socket.destroy()
+      resolve(ok)
+    }
+    socket.once('connect', () => done(true))
+    socket.once('timeout', () => done(false))
+    socket.once('error', () => done(false))
+  })
+}
+
+/**
+ * Checks that the server accepts the URL's credentials. Without psql only
+ * reachability can be checked; returns false in that case so callers can
+ * say the login is verified later.
+ */
+export async function testConnection(databaseUrl: string, timeoutMs = 10_000): Promise<boolean> {
+  if (!commandExists('psql')) {
+    const url = new URL(databaseUrl)
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1')
+    if (!await canConnect(host, parseInt(url.port || '5432', 10), timeoutMs)) {
+      throw new Error(`Cannot reach ${host}:${url.port || 5432}`)
+    }
+    return false
+  }
+
+  const conn = toPgConnection(databaseUrl)
+  try {
+    runCommand('psql', [conn.uri, '-tAc', 'SELECT 1'], {
+      env: { ...conn.env, PGCONNECT_TIMEOUT: String(Math.ceil(timeoutMs / 1000)) },
+      timeout: timeoutMs + 5000,
+    })
+    return true
+  } catch (err) {
+    const stderr = err instanceof CommandError ? err.stderr.trim() : ''
+    throw new Error(stderr.split('\n')[0]?.replace(/^psql: (error: )?/, '') || 'Connection failed')
+  }
+}
+
+/** The schema Prisma keeps its tables in: the URL's `schema` parameter, else public. */
+export function databaseSchema(databaseUrl: string): string {
+  return new URL(databaseUrl).searchParams.get('schema') || 'public'
+}
+
+function runPsql(databaseUrl: string, args: string[]): string {
+  const conn = toPgConnection(databaseUrl)
+  // The output is board data, so it stays out of the transcript
+  return runCommand('psql', [conn.uri, '--no-psqlrc', '--tuples-only', '--no-align', '--set', 'ON_ERROR_STOP=1', ...args], {
+    env: conn.env,
+    maxBuffer: 1024 * 1024 * 1024,
+    quiet: true,
+  })
+}
+
+/** Runs one query and returns its output, one row per line with columns separated by `|`. */
+export function queryDatabase(databaseUrl: string, sql: string): string {
+  return runPsql(databaseUrl, ['--command', sql])
+}
+
+/** Runs a SQL script in a single transaction and returns what it printed. */
+export function runSqlFile(databaseUrl: string, file: string): string {
+  return runPsql(databaseUrl, ['--single-transaction', '--file', file])
+}
+
+/** Writes a compressed custom-format dump of the database to `file`. */
+export async function backupDatabase(databaseUrl: string, file: string): Promise<void> {
+  const conn = toPgConnection(databaseUrl)
+  mkdirSync(dirname(file), { recursive: true })
+  await runCommandAsync('pg_dump', ['--format=custom', '--compress=9', '--no-owner', `--file=${file}`, `--dbname=${conn.uri}`], { env: conn.env })
+}
+
+/** Replaces the database contents with a dump made by `backupDatabase`. */
+export async function restoreDatabase(databaseUrl: string, file: string): Promise<void> {
+  const conn = toPgConnection(databaseUrl)
+  await runCommandAsync('pg_restore', ['--clean', '--if-exists', '--no-owner', '--single-transaction', `--dbname=${conn.uri}`, file], { env: conn.env })
+}
@@ -0,0 +1,388 @@
+import { accessSync, constants, existsSync, mkdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import pc from 'picocolors'
+import { parseFlags } from './args.js'
+import { toPgConnection } from './database.js'
+import { envEntries, invalidLines, readEnvFile } from './dotenv.js'
+import { CommandError, commandExists, runCommand, runCommandAsync } from './exec.js'
+import { probeHealth } from './health.js'
+import { checkPostgres, checkPrerequisites } from './installer.js'
+import type { CommandResult } from './output.js'
+import { describeOwner, findFreePort, findPortOwner, isPortFree } from './ports.js'
+import type { ServiceManager } from './services/index.js'
+import { unescapePlist } from './services/launchd.js'
+import { rotateJobEntry } from './services/rotate-job.js'
+import type { InstallState } from './state.js'
+
+export type CheckStatus = 'pass' | 'warn' | 'fail'
+
+export interface Fix {
+  description: string
+  /** Safe fixes are applied by --fix; the rest are only suggested */
+  apply?: () => Promise<void> | void
+}
+
+export interface CheckResult {
+  name: string
+  status: CheckStatus
+  message: string
+  fix?: Fix
+}
+
+interface DoctorContext {
+  install: InstallState
+  service: ServiceManager
+}
+
+type Check = (ctx: DoctorContext) => Promise<CheckResult | CheckResult[]>
+
+const pass = (name: string, message: string): CheckResult => ({ name, status: 'pass', message })
+
+function requiredNodeMajor(installDir: string): number {
+  try {
+    const pkg = JSON.parse(readFileSync(join(installDir, 'package.json'), 'utf-8'))
+    const match = String(pkg.engines?.node ?? '').match(/>=\s*(\d+)/)
+    if (match) return parseInt(match[1], 10)
+  } catch {
+    // Fall through to the installer's own requirement
+  }
+  return 18
+}
+
+function psql(uri: string, env: NodeJS.ProcessEnv, sql: string, vars: Record<string, string> = {}): string {
+  const args = [uri, '-tA', '-v', 'ON_ERROR_STOP=1', ...Object.entries(vars).flatMap(([k, v]) => ['-v', `${k}=${v}`])]
+  return runCommand('psql', args, { env, input: sql, timeout: 10_000 })
+}
+
+const checkNode: Check = async ({ install }) => {
+  const required = requiredNodeMajor(install.installDir)
+  const major = parseInt(process.versions.node.split('.')[0], 10)
+  return major >= required
+    ? pass('Node.js', `v${process.versions.node}`)
+    : {
+        name: 'Node.js',
+        status: 'fail',
+        message: `v${process.versions.node} is older than the required >=${required}`,
+        fix: { description: `Install Node.js ${required} or newer from https://nodejs.org` },
+      }
+}
+
+const checkTools: Check = async () => {
+  const { missing } = await checkPrerequisites()
+  const results: CheckResult[] = []
+
+  results.push(missing.includes('npm (Node.js)')
+    ? { name: 'npm', status: 'fail', message: 'not on PATH', fix: { description: 'Install Node.js, which includes npm' } }
+    : pass('npm', 'on PATH'))
+  results.push(commandExists('git')
+    ? pass('git', 'on PATH')
+    : { name: 'git', status: 'fail', message: 'not on PATH', fix: { description: 'Install git; updates need it' } })
+  results.push(await checkPostgres()
+    ? pass('psql', 'on PATH')
+    : { name: 'psql', status: 'warn', message: 'not on PATH', fix: { description: 'Install the PostgreSQL client tools' } })
+  if (missing.includes('openclaw')) {
+    results.push({ name: 'openclaw', status: 'warn', message: 'not on PATH', fix: { description: 'npm install -g openclaw' } })
+  }
+
+  return results
+}
+
+const checkEnv: Check = async ({ install }) => {
+  const envPath = join(install.installDir, '.env')
+  if (!existsSync(envPath)) {
+    return { name: '.env', status: 'fail', message: `${envPath} is missing`, fix: { description: 'Re-run the installer' } }
+  }
+
+  const env = readEnvFile(envPath)
+  const entries = envEntries(env)
+  const invalid = invalidLines(env)
+  const problems: string[] = []
+  if (invalid.length > 0) problems.push(`unparseable line${invalid.length === 1 ? '' : 's'} ${invalid.join(', ')}`)
+  if (!entries.has('DATABASE_URL')) problems.push('DATABASE_URL missing')
+  const port = entries.get('PORT')
+  if (port && !/^\d+$/.test(port)) problems.push(`PORT "${port}" is not a number`)
+
+  return problems.length === 0
+    ? pass('.env', `${entries.size} keys`)
+    : { name: '.env', status: 'fail', message: problems.join('; '), fix: { description: `Edit ${envPath}` } }
+}
+
+const checkPort: Check = async ({ install, service }) => {
+  const name = `Port ${install.port}`
+  const health = await probeHealth(install.port, { service, host: install.host, token: install.adminToken })
+
+  if (health.state === 'running' || health.state === 'starting' || health.state === 'unhealthy') {
+    return pass(name, 'held by the board')
+  }
+  if (await isPortFree(install.port)) {
+    return pass(name, 'free')
+  }
+
+  const suggestion = await findFreePort(install.port + 1)
+  return {
+    name,
+    status: 'fail',
+    message: `in use by ${describeOwner(findPortOwner(install.port))}`,
+    fix: {
+      description: suggestion
+        ? `Stop that process or run: npx openclaw-board-installer config set PORT ${suggestion}`
+        : 'Stop that process or change PORT in .env',
+    },
+  }
+}
+
+const checkDatabase: Check = async ({ install }) => {
+  if (!install.databaseUrl) {
+    return { name: 'PostgreSQL', status: 'fail', message: 'no DATABASE_URL', fix: { description: 'Add DATABASE_URL to .env' } }
+  }
+  if (!commandExists('psql')) {
+    return { name: 'PostgreSQL', status: 'warn', message: 'cannot check without psql' }
+  }
+
+  const conn = toPgConnection(install.databaseUrl)
+  const maintenance = new URL(conn.uri)
+  maintenance.pathname = '/postgres'
+
+  try {
+    psql(maintenance.toString(), conn.env, 'SELECT 1;')
+  } catch {
+    return {
+      name: 'PostgreSQL',
+      status: 'fail',
+      message: `cannot connect to ${maintenance.host || 'localhost'}`,
+      fix: {
+        description: process.platform === 'darwin'
+          ? 'brew services start postgresql@17'
+          : 'Start PostgreSQL, e.g. sudo systemctl start postgresql',
+      },
+    }
+  }
+
+  const exists = psql(maintenance.toString(), conn.env, "SELECT 1 FROM pg_database WHERE datname = :'db';", { db: conn.database })
+  if (exists !== '1') {
+    return [
+      pass('PostgreSQL', 'reachable'),
+      {
+        name: 'Database',
+        status: 'fail',
+        message: `${conn.database} does not exist`,
+        fix: {
+          description: `createdb ${conn.database}`,
+          apply: () => {
+            runCommand('createdb', [`--maintenance-db=${maintenance}`, conn.database], { env: conn.env })
+          },
+        },
+      },
+    ]
+  }
+
+  return [pass('PostgreSQL', 'reachable'), pass('Database', `${conn.database} exists`)]
+}
+
+const checkPrisma: Check = async ({ install }) => {
+  const { installDir } = install
+  const results: CheckResult[] = []
+  const generate: Fix = {
+    description: 'npx prisma generate',
+    apply: async () => {
+      await runCommandAsync('npx', ['prisma', 'generate'], { cwd: installDir })
+    },
+  }
+
+  const clientDir = join(installDir, 'node_modules', '.prisma', 'client')
+  if (!existsSync(join(clientDir, 'index.js')) && !existsSync(join(clientDir, 'default.js'))) {
+    results.push({ name: 'Prisma client', status: 'fail', message: 'not generated', fix: generate })
+  } else {
+    results.push(pass('Prisma client', 'generated'))
+  }
+
+  const prisma = join(installDir, 'node_modules', '.bin', 'prisma')
+  const schema = join(installDir, 'prisma', 'schema.prisma')
+  if (!install.databaseUrl || !existsSync(prisma) || !existsSync(schema)) {
+    results.push({ name: 'Schema', status: 'warn', message: 'cannot check (Prisma CLI or schema missing)' })
+    return results
+  }
+
+  try {
+    await runCommandAsync(prisma, [
+      'migrate', 'diff', '--exit-code',
+      '--from-url', install.databaseUrl,
+      '--to-schema-datamodel', schema,
+    ], { cwd: installDir, timeout: 60_000 })
+    results.push(pass('Schema', 'in sync with the database'))
+  } catch (err) {
+    // --exit-code uses 2 for "differences found"; anything else means the diff itself failed
+    results.push(err instanceof CommandError && err.code === 2
+      ? {
+          name: 'Schema',
+          status: 'fail',
+          message: 'database schema differs from prisma/schema.prisma',
+          fix: { description: `cd ${installDir} && npx prisma db push (back up first: npx openclaw-board-installer backup)` },
+        }
+      : { name: 'Schema', status: 'warn', message: 'could not compare schema with the database' })
+  }
+
+  return results
+}
+
+const checkService: Check = async ({ install, service }) => {
+  if (!service.autoStart) {
+    return install.service && install.service !== 'process'
+      ? {
+          name: 'Service',
+          status: 'warn',
+          message: `installed with ${install.service} but it is not available here`,
+        }
+      : pass('Service', 'none (auto-start off)')
+  }
+
+  const reinstall: Fix = { description: `Reinstall the ${service.name} service`, apply: () => service.install() }
+  const path = service.definitionPath
+  if (!service.isInstalled() || !path) {
+    return { name: 'Service', status: 'fail', message: `${service.name} definition missing`, fix: reinstall }
+  }
+
+  const text = readFileSync(path, 'utf-8')
+  const definition = path.endsWith('.plist') ? unescapePlist(text) : text
+  if (!definition.includes(install.installDir)) {
+    return { name: 'Service', status: 'fail', message: `${path} points at a different directory`, fix: reinstall }
+  }
+  if (!definition.includes(String(install.port))) {
+    return { name: 'Service', status: 'warn', message: `${path} uses a different port than .env`, fix: reinstall }
+  }
+  // launchd: <key>HOST</key><string>…</string>; systemd: Environment=HOST=…
+  const host = definition.match(/<key>HOST<\/key>\s*<string>([^<]*)<\/string>|^Environment=HOST=(.*)$/m)
+  if ((host?.[1] ?? host?.[2]) !== install.host) {
+    return { name: 'Service', status: 'warn', message: `${path} uses a different HOST than .env`, fix: reinstall }
+  }
+  return pass('Service', `${service.name} (${path})`)
+}
+
+const checkLogs: Check = async ({ install }) => {
+  const dir = join(install.installDir, 'logs')
+  const create: Fix = { description: `mkdir -p ${dir}`, apply: () => { mkdirSync(dir, { recursive: true }) } }
+
+  if (!existsSync(dir)) {
+    return { name: 'Logs', status: 'warn', message: `${dir} does not exist`, fix: create }
+  }
+  try {
+    accessSync(dir, constants.W_OK)
+    return pass('Logs', `${dir} is writable`)
+  } catch {
+    return { name: 'Logs', status: 'fail', message: `${dir} is not writable`, fix: { description: `chmod u+w ${dir}` } }
+  }
+}
+
+const checkLogRotation: Check = async ({ install, service }) => {
+  if (!service.autoStart || !service.isInstalled()) {
+    return pass('Log rotation', 'not scheduled')
+  }
+  // Installs from before the job was copied into bin/ run it from the npx cache
+  const entry = rotateJobEntry(install.installDir)
+  if (!existsSync(entry)) {
+    return {
+      name: 'Log rotation',
+      status: 'fail',
+      message: `the scheduled job's ${entry} is missing`,
+      fix: { description: `Reinstall the ${service.name} service`, apply: () => service.install() },
+    }
+  }
+  return pass('Log rotation', `scheduled (${entry})`)
+}
+
+const checkCli: Check = async ({ install }) => {
+  const cliDir = join(install.installDir, 'cli')
+  if (!existsSync(cliDir)) {
+    return pass('ocb CLI', 'not part of this version')
+  }
+  if (commandExists('ocb')) {
+    return pass('ocb CLI', 'linked')
+  }
+  return {
+    name: 'ocb CLI',
+    status: 'warn',
+    message: 'not on PATH',
+    fix: {
+      description: `cd ${cliDir} && npm install && npm link`,
+      apply: async () => {
+        await runCommandAsync('npm', ['install'], { cwd: cliDir })
+        await runCommandAsync('npm', ['link'], { cwd: cliDir })
+      },
+    },
+  }
+}
+
+const CHECKS: Check[] = [checkNode, checkTools, checkEnv, checkPort, checkDatabase, checkPrisma, checkService, checkLogs, checkLogRotation, checkCli]
+
+export async function runChecks(install: InstallState, service: ServiceManager): Promise<CheckResult[]> {
+  const results: CheckResult[] = []
+  for (const check of CHECKS) {
+    try {
+      const result = await check({ install, service })
+      results.push(...(Array.isArray(result) ? result : [result]))
+    } catch (err) {
+      results.push({ name: check.name.replace(/^check/, ''), status: 'warn', message: `check failed: ${(err as Error).message}` })
+    }
+  }
+  return results
+}
+
+const ICONS: Record<CheckStatus, string> = {
+  pass: pc.green('✓'),
+  warn: pc.yellow('⚠'),
+  fail: pc.red('✗'),
+}
+
+export async function runDoctor(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  const { values } = parseFlags(argv, { fix: { type: 'boolean' } })
+
+  console.log(pc.bold('\nOpenClaw Board Doctor\n'))
+  const results = await runChecks(install, service)
+  const width = Math.max(...results.map(r => r.name.length))
+
+  for (const result of results) {
+    console.log(`  ${ICONS[result.status]} ${result.name.padEnd(width)}  ${pc.dim(result.message)}`)
+    if (result.status !== 'pass' && result.fix) {
+      const safe = result.fix.apply ? pc.dim(' (--fix)') : ''
+      console.log(`    ${' '.repeat(width)}  → ${pc.cyan(result.fix.description)}${safe}`)
+    }
+  }
+
+  const fixable = results.filter(r => r.status !== 'pass' && r.fix?.apply)
+  const fixed: string[] = []
+  let remaining = results.filter(r => r.status === 'fail').length
+
+  if (values.fix && fixable.length > 0) {
+    console.log(pc.bold('\nApplying fixes:\n'))
+    for (const result of fixable) {
+      try {
+        await result.fix!.apply!()
+        console.log(`  ${pc.green('✓')} ${result.name}: ${result.fix!.description}`)
+        fixed.push(result.name)
+        if (result.status === 'fail') remaining--
+      } catch (err) {
+        console.log(`  ${pc.red('✗')} ${result.name}: ${(err as Error).message}`)
+      }
+    }
+  } else if (fixable.length > 0) {
+    console.log(pc.dim(`\n${fixable.length} issue${fixable.length === 1 ? '' : 's'} can be fixed automatically with --fix`))
+  }
+
+  console.log('')
+  if (remaining > 0) {
+    console.log(pc.red(`${remaining} check${remaining === 1 ? '' : 's'} failed`))
+  } else {
+    console.log(pc.green('No blocking problems found'))
+  }
+
+  return {
+    ok: remaining === 0,
+    exitCode: remaining === 0 ? 0 : 1,
+    checks: results.map(({ name, status, message, fix }) => ({
+      name,
+      status,
+      message,
+      fix: fix && { description: fix.description, automatic: Boolean(fix.apply), applied: fixed.includes(name) },
+    })),
+  }
+}
@@ -0,0 +1,130 @@
+import { chmodSync, existsSync, readFileSync, writeFileSync } from 'fs'
+
+type Quote = '"' | "'" | ''
+
+// An entry's `raw` is dropped once its value changes; untouched lines are written back verbatim
+export type DotenvLine =
+  | { type: 'entry'; key: string; value: string; quote: Quote; exported: boolean; comment: string; raw?: string }
+  | { type: 'blank' | 'comment'; raw: string }
+  | { type: 'invalid'; raw: string; line: number }
+
+/**
+ * A parsed .env file. Comments, blank lines, ordering and keys this
+ * installer doesn't know about survive a read/modify/write round trip.
+ */
+export interface DotenvFile {
+  lines: DotenvLine[]
+}
+
+const ENTRY = /^\s*(export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/
+const BARE_SAFE = /^[\w@%+=:,./?&-]*$/
+
+function unescapeDouble(value: string): string {
+  return value.replace(/\\([nrt"\\$])/g, (_, c: string) => ({ n: '\n', r: '\r', t: '\t' }[c] ?? c))
+}
+
+function parseValue(rest: string): { value: string; quote: Quote; comment: string } | null {
+  const quote = rest[0]
+  if (quote === '"' || quote === "'") {
+    // Find the closing quote, skipping escaped ones inside double quotes
+    let end = 1
+    while (end < rest.length && rest[end] !== quote) {
+      end += quote === '"' && rest[end] === '\\' ? 2 : 1
+    }
+    if (end >= rest.length) return null
+    const inner = rest.slice(1, end)
+    const trailing = rest.slice(end + 1)
+    if (trailing.trim() && !trailing.trim().startsWith('#')) return null
+    return {
+      value: quote === '"' ? unescapeDouble(inner) : inner,
+      quote,
+      comment: trailing.trim() ? ` ${trailing.trim()}` : '',
+    }
+  }
+
+  const hash = rest.search(/\s#/)
+  return hash === -1
+    ? { value: rest.trim(), quote: '', comment: '' }
+    : { value: rest.slice(0, hash).trim(), quote: '', comment: ` ${rest.slice(hash).trim()}` }
+}
+
+export function parseDotenv(text: string): DotenvFile {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n')
+  if (lines.length === 1 && lines[0] === '') return { lines: [] }
+
+  return {
+    lines: lines.map((raw, i): DotenvLine => {
+      const trimmed = raw.trim()
+      if (!trimmed) return { type: 'blank', raw }
+      if (trimmed.startsWith('#')) return { type: 'comment', raw }
+
+      const match = raw.match(ENTRY)
+      const parsed = match && parseValue(match[3])
+      if (!match || !parsed) return { type: 'invalid', raw, line: i + 1 }
+      return { type: 'entry', key: match[2], exported: Boolean(match[1]), ...parsed, raw }
+    }),
+  }
+}
+
+function formatValue(value: string, quote: Quote): string {
+  if (quote === "'" && !/['\n]/.test(value)) return `'${value}'`
+  if (quote === '' && BARE_SAFE.test(value)) return value
+  return `"${value.replace(/[\\"$]/g, '\\$&').replace(/\n/g, '\\n')}"`
+}
+
+export function serializeDotenv(file: DotenvFile): string {
+  const text = file.lines.map((line) => {
+    if (line.type !== 'entry' || line.raw !== undefined) return line.raw
+    return `${line.exported ? 'export ' : ''}${line.key}=${formatValue(line.value, line.quote)}${line.comment}`
+  }).join('\n')
+  return text ? `${text}\n` : ''
+}
+
+function findEntry(file: DotenvFile, key: string) {
+  // Later assignments win, as in every dotenv loader
+  for (let i = file.lines.length - 1; i >= 0; i--) {
+    const line = file.lines[i]
+    if (line.type === 'entry' && line.key === key) return line
+  }
+  return undefined
+}
+
+export function getEnvValue(file: DotenvFile, key: string): string | undefined {
+  return findEntry(file, key)?.value
+}
+
+/** Updates the key in place (keeping its quoting and comment), or appends it. */
+export function setEnvValue(file: DotenvFile, key: string, value: string, quote: Quote = ''): void {
+  const entry = findEntry(file, key)
+  if (entry) {
+    entry.value = value
+    delete entry.raw
+  } else {
+    file.lines.push({ type: 'entry', key, value, quote, exported: false, comment: '' })
+  }
+}
+
+/** Effective key/value pairs in file order. */
+export function envEntries(file: DotenvFile): Map<string, string> {
+  const entries = new Map<string, string>()
+  for (const line of file.lines) {
+    if (line.type === 'entry') entries.set(line.key, line.value)
+  }
+  return entries
+}
+
+/** 1-based line numbers that are neither entries nor comments. */
+export function invalidLines(file: DotenvFile): number[] {
+  return file.lines.flatMap(line => line.type === 'invalid' ? [line.line] : [])
+}
+
+/** Reads a .env file; a missing file reads as empty. */
+export function readEnvFile(path: string): DotenvFile {
+  return existsSync(path) ? parseDotenv(readFileSync(path, 'utf-8')) : { lines: [] }
+}
+
+/** Writes a .env file readable only by the owner, since it holds credentials. */
+export function writeEnvFile(path: string, file: DotenvFile): void {
+  writeFileSync(path, serializeDotenv(file), { mode: 0o600 })
+  chmodSync(path, 0o600)
+}
@@ -0,0 +1,17 @@
+export const ExitCode = {
+  Ok: 0,
+  Failure: 1,
+  Usage: 2,
+  Prerequisites: 3,
+  InvalidConfig: 4,
+  ExistingInstall: 5,
+} as const
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode]
+
+export class InstallerError extends Error {
+  constructor(message: string, readonly exitCode: ExitCode = ExitCode.Failure) {
+    super(message)
+    this.name = 'InstallerError'
+  }
+}
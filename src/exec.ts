@@ -0,0 +1,292 @@
+import { spawn, spawnSync, type StdioOptions } from 'child_process'
+import { accessSync, appendFileSync, constants, existsSync, mkdirSync, statSync } from 'fs'
+import { delimiter, dirname, join } from 'path'
+import { splitCommand } from './args.js'
+
+/**
+ * Every external command goes through here. Arguments are handed to the
+ * program as an array and never pass through a shell, each run has a
+ * timeout, and the output is captured: a failure reports the command with
+ * the end of what it printed, and everything is kept for the transcript in
+ * the install's logs/installer.log.
+ */
+
+// Long enough for npm install on a slow connection; probes pass their own
+const DEFAULT_TIMEOUT_MS = 20 * 60_000
+const DEFAULT_MAX_BUFFER = 64 * 1024 * 1024
+/** Lines of output a failure message ends with */
+const ERROR_TAIL_LINES = 10
+/** How long a timed-out command gets to exit after SIGTERM, and then after SIGKILL */
+const KILL_GRACE_MS = 5_000
+/** Transcript lines held until the install directory exists; the oldest go first */
+const MAX_PENDING_LINES = 10_000
+
+export interface RunOptions {
+  cwd?: string
+  env?: NodeJS.ProcessEnv
+  /** Written to the command's stdin */
+  input?: string
+  timeout?: number
+  maxBuffer?: number
+  /**
+   * Hands the terminal to the command, for prompts such as sudo's password
+   * and package manager progress; nothing is captured
+   */
+  interactive?: boolean
+  /** Keeps the output out of the transcript and --verbose, for commands that print board data */
+  quiet?: boolean
+}
+
+export class CommandError extends Error {
+  /** The command and how it failed, without the output */
+  readonly summary: string
+  /** The last lines of output, indented */
+  readonly tail: string
+
+  constructor(
+    readonly command: string,
+    readonly code: number | null,
+    readonly stdout: string,
+    readonly stderr: string,
+    reason: string,
+    output = stdout + stderr,
+  ) {
+    const summary = `${command} ${reason}`
+    const tail = outputTail(output)
+    super(tail ? `${summary}:\n${tail}` : summary)
+    this.name = 'CommandError'
+    this.summary = summary
+    this.tail = tail
+  }
+}
+
+let verbose = false
+let transcriptDir: string | undefined
+let holding = false
+let transcriptStarted = false
+let pending: string[] = []
+
+/** With --verbose, commands' output is copied to stderr as it arrives. */
+export function setVerbose(on: boolean): void {
+  verbose = on
+}
+
+export function transcriptPath(installDir: string): string {
+  return join(installDir, 'logs', 'installer.log')
+}
+
+/**
+ * Keeps transcript entries from now on for an install directory that
+ * attachTranscript names later. Without this or attachTranscript, a command
+ * leaves no transcript and nothing is kept.
+ */
+export function holdTranscript(): void {
+  holding = true
+}
+
+/**
+ * Appends the transcript to the install's logs/installer.log from now on.
+ * Until the directory exists (a fresh install has none before the clone)
+ * entries are held in memory, so the log also covers what ran before it.
+ */
+export function attachTranscript(installDir: string): void {
+  transcriptDir = installDir
+  flushTranscript()
+}
+
+function flushTranscript(): void {
+  if (!transcriptDir || pending.length === 0 || !existsSync(transcriptDir)) return
+  try {
+    const file = transcriptPath(transcriptDir)
+    mkdirSync(dirname(file), { recursive: true })
+    appendFileSync(file, pending.join('\n') + '\n', { mode: 0o600 })
+    pending = []
+  } catch {
+    // Losing the transcript must not fail the command it describes
+  }
+}
+
+function record(lines: string[]): void {
+  if (!transcriptDir && !holding) return
+  const stamp = new Date().toISOString()
+  if (!transcriptStarted) {
+    transcriptStarted = true
+    const command = splitCommand(process.argv.slice(2)).command ?? 'install'
+    pending.push(`${stamp} --- openclaw-board-installer ${command} (pid ${process.pid}) ---`)
+  }
+  for (const line of lines) pending.push(`${stamp} ${line}`)
+  if (pending.length > MAX_PENDING_LINES) pending.splice(0, pending.length - MAX_PENDING_LINES)
+  flushTranscript()
+}
+
+/** The command line as a shell would spell it. */
+export function formatCommand(command: string[]): string {
+  return command.map(arg => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`).join(' ')
+}
+
+/** For messages and the transcript: any password in a URL is masked. */
+export function describeCommand(cmd: string, args: string[]): string {
+  return formatCommand([cmd, ...args]).replace(/(\/\/[^/:@\s]+:)[^@\s]+@/g, '$1***@')
+}
+
+/** Output as lines, keeping only what the last carriage return left on progress lines. */
+function outputLines(output: string): string[] {
+  return output.split('\n').map(line => line.split('\r').filter(Boolean).pop() ?? '').filter(line => line.trim())
+}
+
+function outputTail(output: string): string {
+  return outputLines(output).slice(-ERROR_TAIL_LINES).map(line => `  ${line}`).join('\n')
+}
+
+interface Outcome {
+  stdout: string
+  stderr: string
+  /** Both streams in the order they arrived, where known */
+  output: string
+  code: number | null
+  signal: NodeJS.Signals | null
+  error?: Error
+  timedOut: boolean
+}
+
+/** Records how a command ended; returns its trimmed stdout, or throws a CommandError. */
+function settle(command: string, options: RunOptions, started: number, outcome: Outcome): string {
+  const elapsed = `after ${((Date.now() - started) / 1000).toFixed(1)}s`
+  if (!options.quiet) record(outputLines(outcome.output).map(line => `  ${line}`))
+
+  let reason: string | undefined
+  if (outcome.timedOut) {
+    reason = `timed out after ${Math.round((options.timeout ?? DEFAULT_TIMEOUT_MS) / 1000)}s`
+  } else if (outcome.error) {
+    const code = (outcome.error as NodeJS.ErrnoException).code
+    reason = code === 'ENOENT' ? 'could not start: command not found' : `could not run: ${outcome.error.message}`
+  } else if (outcome.signal) {
+    reason = `was killed by ${outcome.signal}`
+  } else if (outcome.code !== 0) {
+    reason = `exited with code ${outcome.code}`
+  }
+
+  if (!reason) {
+    record([`exit 0 ${elapsed}`])
+    return outcome.stdout.trim()
+  }
+  record([`${reason} ${elapsed}`])
+  throw new CommandError(command, outcome.code, outcome.stdout, outcome.stderr, reason, outcome.output)
+}
+
+function recordStart(command: string, options: RunOptions): void {
+  record([`$ ${command}${options.cwd ? `  (in ${options.cwd})` : ''}`])
+}
+
+function stdioFor(options: RunOptions): StdioOptions {
+  // An interactive command prints to stderr, so --json output on stdout stays parseable
+  if (options.interactive) return ['inherit', process.stderr.fd, 'inherit']
+  return [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe']
+}
+
+/**
+ * Runs a command to completion and returns its trimmed stdout. Meant for quick
+ * commands: --verbose shows the output only once it ends, so anything slow
+ * goes through runCommandAsync.
+ */
+export function runCommand(cmd: string, args: string[], options: RunOptions = {}): string {
+  const command = describeCommand(cmd, args)
+  recordStart(command, options)
+  const started = Date.now()
+  const result = spawnSync(cmd, args, {
+    cwd: options.cwd,
+    env: options.env,
+    input: options.input,
+    timeout: options.timeout ?? DEFAULT_TIMEOUT_MS,
+    // spawnSync waits for the exit after its one signal, so it must be one that can't be ignored
+    killSignal: 'SIGKILL',
+    maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+    encoding: 'utf-8',
+    stdio: stdioFor(options),
+  })
+  const stdout = result.stdout ?? ''
+  const stderr = result.stderr ?? ''
+  if (verbose && !options.quiet) process.stderr.write(stdout + stderr)
+  const timedOut = (result.error as NodeJS.ErrnoException | undefined)?.code === 'ETIMEDOUT'
+  return settle(command, options, started, {
+    stdout,
+    stderr,
+    output: stdout + stderr,
+    code: result.status,
+    signal: result.signal,
+    error: result.error,
+    timedOut,
+  })
+}
+
+/** Runs a command without blocking, for long steps such as npm install; with --verbose its output streams live. */
+export function runCommandAsync(cmd: string, args: string[], options: RunOptions = {}): Promise<string> {
+  const command = describeCommand(cmd, args)
+  recordStart(command, options)
+  const started = Date.now()
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(cmd, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: stdioFor(options),
+    })
+    let stdout = ''
+    let stderr = ''
+    let output = ''
+    let timedOut = false
+    let done = false
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: string) => {
+      if (stream === 'stdout') stdout += chunk
+      else stderr += chunk
+      output += chunk
+      if (verbose && !options.quiet) process.stderr.write(chunk)
+    }
+    child.stdout?.setEncoding('utf-8').on('data', collect('stdout'))
+    child.stderr?.setEncoding('utf-8').on('data', collect('stderr'))
+    if (options.input !== undefined) child.stdin?.end(options.input)
+
+    const timers: NodeJS.Timeout[] = []
+    timers.push(setTimeout(() => {
+      timedOut = true
+      child.kill('SIGTERM')
+      timers.push(setTimeout(() => {
+        child.kill('SIGKILL')
+        // Its own children can hold the pipes open, so 'close' may never come
+        timers.push(setTimeout(() => {
+          child.stdout?.destroy()
+          child.stderr?.destroy()
+          finish(child.exitCode, child.signalCode ?? 'SIGKILL')
+        }, KILL_GRACE_MS))
+      }, KILL_GRACE_MS))
+    }, options.timeout ?? DEFAULT_TIMEOUT_MS))
+
+    const finish = (code: number | null, signal: NodeJS.Signals | null, error?: Error) => {
+      if (done) return
+      done = true
+      for (const timer of timers) clearTimeout(timer)
+      try {
+        resolve(settle(command, options, started, { stdout, stderr, output, code, signal, error, timedOut }))
+      } catch (err) {
+        reject(err)
+      }
+    }
+    child.on('error', (err) => finish(null, null, err))
+    child.on('close', (code, signal) => finish(code, signal))
+  })
+}
+
+/** Looks the command up on PATH the way a shell would, without starting one. */
+export function commandExists(cmd: string): boolean {
+  return (process.env.PATH ?? '').split(delimiter).some((dir) => {
+    if (!dir) return false
+    try {
+      const path = join(dir, cmd)
+      accessSync(path, constants.X_OK)
+      return statSync(path).isFile()
+    } catch {
+      return false
+    }
+  })
+}
@@ -0,0 +1,142 @@
+import http from 'http'
+import { probeHost } from './network.js'
+import type { ServiceManager } from './services/index.js'
+
+export type HealthState = 'running' | 'starting' | 'unhealthy' | 'foreign' | 'stopped'
+
+/**
+ * Exit codes for `status`, so scripts can branch without parsing output.
+ * 1 and 2 stay reserved for errors and usage mistakes.
+ */
+export const STATUS_EXIT_CODES: Record<HealthState, number> = {
+  running: 0,
+  stopped: 3,
+  unhealthy: 4,
+  foreign: 4,
+  starting: 5,
+}
+
+export interface HealthResult {
+  state: HealthState
+  statusCode?: number
+  detail?: string
+}
+
+export interface ProbeOptions {
+  timeoutMs?: number
+  /** The board's bind address (HOST); unset or a wildcard probes localhost */
+  host?: string
+  /** ADMIN_TOKEN from .env, sent as a bearer token when the API is protected */
+  token?: string
+  /** Used to tell "still booting" apart from "not running" when nothing answers */
+  service?: ServiceManager
+}
+
+const DEFAULT_PROBE_TIMEOUT_MS = parseInt(process.env.OPENCLAW_BOARD_PROBE_TIMEOUT_MS ?? '', 10) || 2000
+const HEALTH_PATH = '/api/tasks'
+
+type RawResponse =
+  | { kind: 'response'; statusCode: number; body: string; contentType: string }
+  | { kind: 'refused' }
+  | { kind: 'timeout' }
+  | { kind: 'error'; message: string }
+
+function request(host: string, port: number, timeoutMs: number, token?: string): Promise<RawResponse> {
+  const headers = token ? { authorization: `Bearer ${token}` } : undefined
+  return new Promise((resolve) => {
+    const req = http.get({ host, port, path: HEALTH_PATH, headers, timeout: timeoutMs }, (res) => {
+      let body = ''
+      res.setEncoding('utf-8')
+      res.on('data', (chunk) => {
+        // The shape check only needs the start of the payload
+        if (body.length < 64 * 1024) body += chunk
+      })
+      res.on('end', () => resolve({
+        kind: 'response',
+        statusCode: res.statusCode ?? 0,
+        body,
+        contentType: String(res.headers['content-type'] ?? ''),
+      }))
+    })
+    req.on('timeout', () => {
+      req.destroy()
+      resolve({ kind: 'timeout' })
+    })
+    req.on('error', (err: NodeJS.ErrnoException) => {
+      resolve(err.code === 'ECONNREFUSED' ? { kind: 'refused' } : { kind: 'error', message: err.message })
+    })
+  })
+}
+
+function looksLikeBoard(body: string): boolean {
+  try {
+    const data = JSON.parse(body)
+    return Array.isArray(data) || Array.isArray(data?.tasks)
+  } catch {
+    return false
+  }
+}
+
+async function serviceIsUp(service?: ServiceManager): Promise<boolean> {
+  if (!service) return false
+  try {
+    return (await service.status()).state === 'running'
+  } catch {
+    return false
+  }
+}
+
+/** Probes the board API once and classifies what is listening on the port. */
+export async function probeHealth(port: number, options: ProbeOptions = {}): Promise<HealthResult> {
+  const res = await request(probeHost(options.host), port, options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS, options.token)
+
+  switch (res.kind) {
+    case 'refused':
+      return { state: await serviceIsUp(options.service) ? 'starting' : 'stopped' }
+    case 'timeout':
+      return await serviceIsUp(options.service)
+        ? { state: 'starting', detail: 'no response yet' }
+        : { state: 'unhealthy', detail: 'request timed out' }
+    case 'error':
+      return { state: 'unhealthy', detail: res.message }
+  }
+
+  const { statusCode } = res
+  if (statusCode >= 500) {
+    return { state: 'unhealthy', statusCode, detail: `HTTP ${statusCode}` }
+  }
+  // A protected board turning the probe away is still the board
+  if (statusCode === 401 || statusCode === 403) {
+    return {
+      state: 'unhealthy',
+      statusCode,
+      detail: options.token ? `admin token rejected (HTTP ${statusCode})` : `API requires an admin token (HTTP ${statusCode})`,
+    }
+  }
+  if (statusCode >= 200 && statusCode < 300 && res.contentType.includes('json') && looksLikeBoard(res.body)) {
+    return { state: 'running', statusCode }
+  }
+  return { state: 'foreign', statusCode, detail: `unexpected HTTP ${statusCode} response from ${HEALTH_PATH}` }
+}
+
+/**
+ * Polls until the board is healthy, something else answers on the port, or
+ * the deadline passes, backing off from 250ms to 2s between probes. Returns
+ * the last probe result.
+ */
+export async function waitForHealthy(
+  port: number,
+  options: ProbeOptions & { deadlineMs?: number } = {},
+): Promise<HealthResult> {
+  const deadline = Date.now() + (options.deadlineMs ?? 60_000)
+  let delay = 250
+  let result = await probeHealth(port, options)
+
+  while (result.state !== 'running' && result.state !== 'foreign' && Date.now() + delay < deadline) {
+    await new Promise(resolve => setTimeout(resolve, delay))
+    delay = Math.min(delay * 2, 2000)
+    result = await probeHealth(port, options)
+  }
+
+  return result
+}
@@ -1,79 +1,157 @@
 import * as p from '@clack/prompts'
 import pc from 'picocolors'
-import { execSync, spawn } from 'child_process'
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs'
-import { homedir } from 'os'
-import { join } from 'path'
+import { existsSync, rmSync } from 'fs'
+import { basename, join, resolve } from 'path'
+import {
+  DEFAULT_PORT,
+  expandHome,
+  parseInstallArgs,
+  validateInstallDir,
+  validatePort,
+  type ExistingAction,
+  type InstallAnswers,
+} from './answers.js'
+import { TOKEN_KEY, configureCli, generateToken } from './auth.js'
+import {
+  describeBundle,
+  discardBundle,
+  installFromBundle,
+  nodeMismatch,
+  readBundleManifest,
+  resolveSource,
+  unpackBundle,
+} from './bundle.js'
+import {
+  CONTAINER_IMAGE,
+  detectContainerRuntime,
+  removePostgresContainer,
+  resumePostgresContainer,
+  startPostgresContainer,
+  type ContainerRuntime,
+} from './container.js'
+import {
+  SSL_MODES,
+  buildDatabaseUrl,
+  describeDatabaseUrl,
+  testConnection,
+  type DatabaseMode,
+  type DatabaseSettings,
+  type SslMode,
+} from './database.js'
+import { getEnvValue, readEnvFile, setEnvValue, writeEnvFile } from './dotenv.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { attachTranscript, commandExists, holdTranscript, runCommand, runCommandAsync, setVerbose, transcriptPath } from './exec.js'
+import { describeInstance, instanceDatabase, instanceDir, namedInstance } from './instances.js'
+import {
+  STEP_LABELS,
+  clearJournal,
+  nextStep,
+  readJournal,
+  runStep,
+  writeJournal,
+  type InstallJournal,
+} from './journal.js'
+import {
+  boardUrl,
+  defaultLanUrl,
+  defaultProxyUrl,
+  issueLocalCertificate,
+  lanAddresses,
+  normalizePublicUrl,
+  proxyInstructions,
+  validatePublicUrl,
+  writeProxyConfig,
+  type ProxyRecord,
+  type ProxyServer,
+} from './network.js'
+import { describeRotation } from './logs.js'
+import { isJsonMode, printJson } from './output.js'
+import { checkPortConflict, formatPortConflict } from './ports.js'
+import { ensureUserRole, installPostgresLinux, localSocketDir, type AroundCommand } from './postgres.js'
+import { DEFAULT_ROTATION, type RotationPolicy } from './rotation.js'
+import { platformServiceManager, selectServiceManager, type ServiceBackend, type ServiceManager } from './services/index.js'
+import { clearState, describeCheckout, listInstances, resolveInstall, writeState, type DatabaseRecord, type InstallState } from './state.js'
+import { countRows, importArchive, readArchive, requirePsql, type BoardArchive } from './transfer.js'
+import { formatUpdateReport, performUpdate, type UpdateReport, type UpdateStep } from './update.js'
+import {
+  REPO_URL,
+  checkoutTarget,
+  describePin,
+  describeTarget,
+  listRemoteRefs,
+  resolveTarget,
+  type VersionPin,
+} from './versions.js'
 
-const REPO_URL = 'https://github.com/finchinslc/openclaw-board.git'
-const DEFAULT_PORT = 3000
-const DEFAULT_INSTALL_DIR = join(homedir(), 'openclaw-board')
+type DatabasePlan =
+  | { mode: 'local' }
+  | { mode: 'external'; url: string }
+  | { mode: 'docker'; runtime: ContainerRuntime }
 
-interface InstallerConfig {
-  installDir: string
-  port: number
-  autoStart: boolean
+type TlsPlan = { mode: 'local-ca' } | { mode: 'custom'; cert: string; key: string }
+
+/** How the board is reached; empty means localhost only */
+interface NetworkPlan {
+  host?: string
+  publicUrl?: string
+  proxy?: { server: ProxyServer; tls: TlsPlan }
 }
 
-interface ExistingInstall {
+interface InstallerConfig {
+  /** Absent for the default instance */
+  instance?: string
   installDir: string
   port: number
-  hasLaunchAgent: boolean
+  autoStart: boolean
+  database: DatabasePlan
+  network: NetworkPlan
+  /** Generate ADMIN_TOKEN and configure ocb with it */
+  adminToken: boolean
+  logRotation: RotationPolicy
+  pin?: VersionPin
+  /** Export archive to load once the database is set up */
+  importFrom?: string
+  /** Git URL or local mirror to clone; absent means GitHub */
+  source?: string
+  /** Offline bundle to install from instead of cloning */
+  bundle?: string
 }
 
-function commandExists(cmd: string): boolean {
-  try {
-    execSync(`command -v ${cmd}`, { stdio: 'ignore' })
-    return true
-  } catch {
-    return false
+function rotationPolicy(answers: InstallAnswers): RotationPolicy {
+  return {
+    maxBytes: answers.logMaxSize ?? DEFAULT_ROTATION.maxBytes,
+    maxAgeMs: answers.logMaxAge ?? DEFAULT_ROTATION.maxAgeMs,
+    keep: answers.logKeep ?? DEFAULT_ROTATION.keep,
   }
 }
 
-function runCommand(cmd: string, cwd?: string): string {
-  return execSync(cmd, { cwd, encoding: 'utf-8', stdio: 'pipe' }).trim()
-}
-
-function runCommandLive(cmd: string, args: string[], cwd?: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn(cmd, args, { cwd, stdio: 'inherit' })
-    proc.on('close', (code) => {
-      if (code === 0) resolve()
-      else reject(new Error(`Command failed with code ${code}`))
-    })
-    proc.on('error', reject)
-  })
+interface ExistingInstall {
+  installDir: string
+  port: number
+  hasService: boolean
+  install: InstallState
+  service: ServiceManager
 }
 
-function detectExistingInstall(): ExistingInstall | null {
-  const installDir = DEFAULT_INSTALL_DIR
-  const envPath = join(installDir, '.env')
-  const plistPath = join(homedir(), 'Library', 'LaunchAgents', 'com.openclaw.board.plist')
+function detectExistingInstall(installDir?: string, instance?: string): ExistingInstall | null {
+  const install = resolveInstall(installDir, instance)
   
-  if (!existsSync(installDir) || !existsSync(envPath)) {
+  if (!install) {
     return null
   }
   
-  // Parse port from .env
-  let port = DEFAULT_PORT
-  try {
-    const envContent = readFileSync(envPath, 'utf-8')
-    const portMatch = envContent.match(/PORT=(\d+)/)
-    if (portMatch) {
-      port = parseInt(portMatch[1], 10)
-    }
-  } catch {
-    // Use default
-  }
+  const service = selectServiceManager(install, { backend: install.service })
   
   return {
-    installDir,
-    port,
-    hasLaunchAgent: existsSync(plistPath),
+    installDir: install.installDir,
+    port: install.port,
+    hasService: service.autoStart && service.isInstalled(),
+    install,
+    service,
   }
 }
 
-async function checkPrerequisites(): Promise<{ ok: boolean; missing: string[] }> {
+export async function checkPrerequisites(): Promise<{ ok: boolean; missing: string[] }> {
   const missing: string[] = []
   
   // Check npm
@@ -94,232 +172,578 @@ async function checkPrerequisites(): Promise<{ ok: boolean; missing: string[] }>
   return { ok: missing.length === 0, missing }
 }
 
-async function checkPostgres(): Promise<boolean> {
+export async function checkPostgres(): Promise<boolean> {
   return commandExists('psql')
 }
 
+/** Pauses the spinner while a command has the terminal, so a sudo prompt isn't drawn over. */
+function handOverTerminal(spinner: ReturnType<typeof p.spinner>, resume: string): AroundCommand {
+  return async (command, run) => {
+    spinner.stop(`Running ${pc.cyan(command)}`)
+    try {
+      await run()
+    } finally {
+      spinner.start(resume)
+    }
+  }
+}
+
 async function installPostgres(spinner: ReturnType<typeof p.spinner>): Promise<void> {
+  const around = handOverTerminal(spinner, 'Installing PostgreSQL...')
+  if (process.platform === 'linux') {
+    await installPostgresLinux(around)
+    return
+  }
   if (process.platform !== 'darwin') {
-    throw new Error('Automatic PostgreSQL installation is only supported on macOS. Please install PostgreSQL manually.')
+    throw new Error('Automatic PostgreSQL installation is only supported on macOS and Linux. Please install PostgreSQL manually.')
   }
   
-  spinner.message('Installing PostgreSQL via Homebrew...')
-  await runCommandLive('brew', ['install', 'postgresql@17'])
+  await around('brew install postgresql@17', async () => {
+    await runCommandAsync('brew', ['install', 'postgresql@17'], { interactive: true })
+  })
   
   spinner.message('Starting PostgreSQL service...')
-  await runCommandLive('brew', ['services', 'start', 'postgresql@17'])
+  await runCommandAsync('brew', ['services', 'start', 'postgresql@17'])
   
   // Wait for Postgres to start
   await new Promise(resolve => setTimeout(resolve, 3000))
 }
 
-async function setupDatabase(spinner: ReturnType<typeof p.spinner>): Promise<string> {
-  const dbName = 'openclaw_board'
+async function setupDatabase(spinner: ReturnType<typeof p.spinner>, dbName: string): Promise<string> {
   const user = process.env.USER || 'openclaw'
   
+  if (process.platform === 'linux') {
+    spinner.message('Checking PostgreSQL role...')
+    await ensureUserRole(handOverTerminal(spinner, 'Checking PostgreSQL role...'))
+  }
+  
   spinner.message('Checking database...')
   
+  let exists = false
   try {
-    // Check if database exists
-    runCommand(`psql -lqt | cut -d \\| -f 1 | grep -qw ${dbName}`)
+    // The name goes in as a psql variable, which -c would not expand, so the query comes on stdin
+    exists = runCommand('psql', ['-d', 'postgres', '-tA', '-v', 'ON_ERROR_STOP=1', '-v', `db=${dbName}`], {
+      input: "SELECT 1 FROM pg_database WHERE datname = :'db';",
+      timeout: 30_000,
+    }) === '1'
   } catch {
-    // Database doesn't exist, create it
+    // Can't tell; creating it reports the actual problem
+  }
+  if (!exists) {
     spinner.message('Creating database...')
-    try {
-      runCommand(`createdb ${dbName}`)
-    } catch {
-      // Try with postgres superuser if regular user fails
-      runCommand(`psql postgres -c "CREATE DATABASE ${dbName};"`)
-    }
+    // createdb quotes the name itself
+    runCommand('createdb', [dbName])
   }
   
-  return `postgresql://${user}@localhost:5432/${dbName}?schema=public`
+  // Linux packages authenticate TCP connections by password but the socket by OS user
+  const socketDir = process.platform === 'linux' ? localSocketDir() : undefined
+  return buildDatabaseUrl({ host: 'localhost', port: 5432, user, database: dbName, socketDir })
 }
 
-async function runUpdate(existing: ExistingInstall): Promise<void> {
-  const spinner = p.spinner()
-  
-  try {
-    spinner.start('Pulling latest changes...')
-    await runCommandLive('git', ['pull', 'origin', 'main'], existing.installDir)
-    spinner.stop('Code updated')
-    
-    spinner.start('Installing dependencies...')
-    await runCommandLive('npm', ['install'], existing.installDir)
-    spinner.stop('Dependencies installed')
+/** The default port for an instance: 3000, or the first one no other instance is configured for. */
+function defaultPort(instance: string | undefined): number {
+  const taken = new Set(listInstances().filter(other => other.instance !== namedInstance(instance)).map(other => other.port))
+  let port = DEFAULT_PORT
+  while (taken.has(port)) port++
+  return port
+}
+
+async function promptPort(initial: number): Promise<number> {
+  let suggestion = initial
+  for (;;) {
+    const input = exitIfCancelled(await p.text({
+      message: 'Port number',
+      initialValue: String(suggestion),
+      validate: validatePort,
+    }))
+    const port = parseInt(input, 10)
     
-    spinner.start('Running database migrations...')
-    await runCommandLive('npx', ['prisma', 'generate'], existing.installDir)
-    await runCommandLive('npx', ['prisma', 'db', 'push'], existing.installDir)
-    spinner.stop('Database updated')
+    const conflict = await checkPortConflict(port)
+    if (!conflict) return port
     
-    // Update CLI
-    const cliDir = join(existing.installDir, 'cli')
-    if (existsSync(cliDir)) {
-      spinner.start('Updating ocb CLI...')
-      await runCommandLive('npm', ['install'], cliDir)
-      await runCommandLive('npm', ['link'], cliDir)
-      spinner.stop('CLI updated')
+    // Offer the next free port as the new default
+    p.log.warn(`${formatPortConflict(conflict)}${conflict.suggestion ? `; port ${conflict.suggestion} is free` : ''}`)
+    suggestion = conflict.suggestion ?? port
+  }
+}
+
+function exitIfCancelled<T>(value: T | symbol): T {
+  if (p.isCancel(value)) {
+    p.outro(pc.yellow('Installation cancelled.'))
+    process.exit(0)
+  }
+  return value
+}
+
+async function chooseDatabaseMode(answers: InstallAnswers, nonInteractive: boolean): Promise<DatabaseMode> {
+  if (answers.database) return answers.database
+  if (nonInteractive) return answers.dbHost ? 'external' : 'local'
+  
+  return exitIfCancelled(await p.select<DatabaseMode>({
+    message: 'Which database should the board use?',
+    options: [
+      { value: 'local', label: 'Local PostgreSQL', hint: 'Install or reuse PostgreSQL on this machine' },
+      { value: 'external', label: 'Existing server', hint: 'Connect to a PostgreSQL server you already run' },
+      { value: 'docker', label: 'Container', hint: `Start ${CONTAINER_IMAGE} with docker or podman` },
+    ],
+  }))
+}
+
+async function checkExternalDatabase(url: string): Promise<void> {
+  const spinner = p.spinner()
+  spinner.start(`Connecting to ${describeDatabaseUrl(url)}...`)
+  try {
+    const verified = await testConnection(url)
+    spinner.stop(verified ? 'Connected' : 'Server reachable')
+    if (!verified) {
+      p.log.warn('psql is not installed, so the login is only checked when the schema is applied.')
     }
+  } catch (err) {
+    spinner.stop('Connection failed')
+    throw err
+  }
+}
+
+async function promptExternalDatabase(answers: InstallAnswers): Promise<string> {
+  let defaults: Partial<DatabaseSettings> = {
+    host: answers.dbHost,
+    port: answers.dbPort,
+    user: answers.dbUser,
+    password: answers.dbPassword,
+    database: answers.dbName,
+    sslMode: answers.dbSslMode,
+  }
+  const required = (label: string) => (value: string | undefined) => value ? undefined : `${label} is required`
+  
+  for (;;) {
+    const host = exitIfCancelled(await p.text({
+      message: 'Database host',
+      initialValue: defaults.host ?? 'localhost',
+      validate: required('Host'),
+    }))
+    const port = exitIfCancelled(await p.text({
+      message: 'Database port',
+      initialValue: String(defaults.port ?? 5432),
+      validate: validatePort,
+    }))
+    const user = exitIfCancelled(await p.text({
+      message: 'Database user',
+      initialValue: defaults.user ?? process.env.USER ?? '',
+      validate: required('User'),
+    }))
+    // An empty answer means no password, so keeping a known one is a separate choice
+    const passwordChoice = defaults.password
+      ? exitIfCancelled(await p.select({
+          message: 'Database password',
+          initialValue: 'keep',
+          options: [
+            { value: 'keep', label: 'Keep the current password' },
+            { value: 'change', label: 'Enter a different password' },
+            { value: 'none', label: 'No password' },
+          ],
+        }))
+      : 'change'
+    const password = passwordChoice === 'keep'
+      ? defaults.password
+      : passwordChoice === 'none'
+        ? undefined
+        : exitIfCancelled(await p.password({ message: 'Database password (leave empty for none)' })) || undefined
+    const database = exitIfCancelled(await p.text({
+      message: 'Database name',
+      initialValue: defaults.database ?? instanceDatabase(answers.instance),
+      validate: required('Database name'),
+    }))
+    const sslMode = exitIfCancelled(await p.select<SslMode>({
+      message: 'SSL mode',
+      initialValue: defaults.sslMode ?? 'prefer',
+      options: SSL_MODES.map(mode => ({ value: mode, label: mode })),
+    }))
     
-    p.log.success(pc.green('Update complete!'))
-    p.log.info('')
-    p.log.info(`Board running at: ${pc.cyan(`http://localhost:${existing.port}`)}`)
+    defaults = { host, port: parseInt(port, 10), user, password, database, sslMode }
+    const url = buildDatabaseUrl(defaults as DatabaseSettings)
     
-    if (existing.hasLaunchAgent) {
-      p.log.info(pc.dim('Restart the service to apply changes:'))
-      p.log.info(`  ${pc.cyan('launchctl kickstart -k gui/$(id -u)/com.openclaw.board')}`)
+    try {
+      await checkExternalDatabase(url)
+      return url
+    } catch (err) {
+      p.log.error((err as Error).message)
+      const retry = await p.confirm({ message: 'Try different connection details?', initialValue: true })
+      if (p.isCancel(retry) || !retry) {
+        p.outro(pc.yellow('Installation cancelled.'))
+        process.exit(0)
+      }
     }
-    
-    p.outro(pc.green('✓ OpenClaw Board updated'))
-    
-  } catch (err) {
-    spinner.stop('Update failed')
-    throw err
   }
 }
 
-async function cloneAndSetup(config: InstallerConfig, spinner: ReturnType<typeof p.spinner>): Promise<void> {
-  const { installDir, port } = config
+type NetworkAccess = 'local' | 'lan' | 'proxy'
+
+function validateProxyUrl(value: string | undefined): string | undefined {
+  return validatePublicUrl(value) ?? (value?.startsWith('https://') ? undefined : 'The proxy serves HTTPS; use an https:// URL')
+}
+
+function validateFile(value: string | undefined): string | undefined {
+  return value && existsSync(expandHome(value)) ? undefined : 'File not found'
+}
+
+function tlsFromAnswers(answers: InstallAnswers): TlsPlan {
+  if (!answers.tlsCert !== !answers.tlsKey) {
+    throw new InstallerError('--tls-cert and --tls-key must be given together', ExitCode.InvalidConfig)
+  }
+  if (answers.tlsCert && answers.tlsKey) {
+    for (const file of [answers.tlsCert, answers.tlsKey]) {
+      if (!existsSync(file)) throw new InstallerError(`TLS file not found: ${file}`, ExitCode.InvalidConfig)
+    }
+    return { mode: 'custom', cert: answers.tlsCert, key: answers.tlsKey }
+  }
+  if (!commandExists('mkcert')) {
+    throw new InstallerError(
+      'A local CA needs mkcert (https://github.com/FiloSottile/mkcert). Install it or pass --tls-cert and --tls-key.',
+      ExitCode.Prerequisites,
+    )
+  }
+  return { mode: 'local-ca' }
+}
+
+async function promptTls(answers: InstallAnswers): Promise<TlsPlan> {
+  const mode = exitIfCancelled(await p.select<TlsPlan['mode']>({
+    message: 'HTTPS certificate',
+    initialValue: answers.tlsCert ? 'custom' : 'local-ca',
+    options: [
+      { value: 'local-ca', label: 'Local CA', hint: commandExists('mkcert') ? 'Issued with mkcert' : 'Needs mkcert' },
+      { value: 'custom', label: 'My own certificate', hint: 'PEM certificate and key files' },
+    ],
+  }))
+  if (mode === 'local-ca') return tlsFromAnswers({})
   
-  spinner.message('Cloning OpenClaw Board...')
-  await runCommandLive('git', ['clone', REPO_URL, installDir])
+  const cert = exitIfCancelled(await p.text({ message: 'Certificate file', initialValue: answers.tlsCert, validate: validateFile }))
+  const key = exitIfCancelled(await p.text({ message: 'Private key file', initialValue: answers.tlsKey, validate: validateFile }))
+  return { mode, cert: resolve(expandHome(cert)), key: resolve(expandHome(key)) }
+}
+
+/**
+ * Works out where the board listens and the URL people open. Behind a proxy
+ * the board binds to loopback so only the proxy can reach it.
+ */
+async function resolveNetworkPlan(answers: InstallAnswers, nonInteractive: boolean, port: number): Promise<NetworkPlan> {
+  if (nonInteractive) {
+    if (answers.proxy && answers.proxy !== 'none') {
+      const publicUrl = answers.publicUrl ?? defaultProxyUrl()
+      const error = validateProxyUrl(publicUrl)
+      if (error) throw new InstallerError(`--public-url: ${error}`, ExitCode.InvalidConfig)
+      return {
+        host: answers.host ?? '127.0.0.1',
+        publicUrl: normalizePublicUrl(publicUrl),
+        proxy: { server: answers.proxy, tls: tlsFromAnswers(answers) },
+      }
+    }
+    const exposed = answers.host && answers.host !== 'localhost' && !answers.host.startsWith('127.')
+    const publicUrl = answers.publicUrl ?? (exposed ? defaultLanUrl(answers.host, port) : undefined)
+    return { host: answers.host, publicUrl: publicUrl && normalizePublicUrl(publicUrl) }
+  }
   
-  spinner.message('Installing dependencies...')
-  await runCommandLive('npm', ['install'], installDir)
+  const access = exitIfCancelled(await p.select<NetworkAccess>({
+    message: 'Who should be able to open the board?',
+    initialValue: answers.proxy && answers.proxy !== 'none' ? 'proxy' : answers.host ? 'lan' : 'local',
+    options: [
+      { value: 'local', label: 'Only this machine', hint: `http://localhost:${port}` },
+      { value: 'lan', label: 'Other machines on the network', hint: 'Plain HTTP on the local network' },
+      { value: 'proxy', label: 'Other machines, over HTTPS', hint: 'Generates a Caddy or nginx config' },
+    ],
+  }))
   
-  // Get database URL
-  const dbUrl = await setupDatabase(spinner)
+  if (access === 'local') return {}
   
-  // Write .env file
-  spinner.message('Configuring environment...')
-  const envContent = `DATABASE_URL="${dbUrl}"\nPORT=${port}\n`
-  writeFileSync(join(installDir, '.env'), envContent)
+  if (access === 'lan') {
+    const host = exitIfCancelled(await p.select<string>({
+      message: 'Listen on',
+      initialValue: answers.host ?? '0.0.0.0',
+      options: [
+        { value: '0.0.0.0', label: 'All interfaces', hint: '0.0.0.0' },
+        ...lanAddresses().map(address => ({ value: address, label: address })),
+      ],
+    }))
+    const publicUrl = exitIfCancelled(await p.text({
+      message: 'URL the board will be opened at',
+      initialValue: answers.publicUrl ?? defaultLanUrl(host, port),
+      validate: validatePublicUrl,
+    }))
+    return { host, publicUrl: normalizePublicUrl(publicUrl) }
+  }
   
-  // Run Prisma setup
-  spinner.message('Setting up database schema...')
-  await runCommandLive('npx', ['prisma', 'generate'], installDir)
-  await runCommandLive('npx', ['prisma', 'db', 'push'], installDir)
+  const server = exitIfCancelled(await p.select<ProxyServer>({
+    message: 'Reverse proxy',
+    initialValue: answers.proxy && answers.proxy !== 'none' ? answers.proxy : 'caddy',
+    options: [
+      { value: 'caddy', label: 'Caddy' },
+      { value: 'nginx', label: 'nginx' },
+    ],
+  }))
+  const publicUrl = exitIfCancelled(await p.text({
+    message: 'HTTPS URL the board will be opened at',
+    initialValue: answers.publicUrl ?? defaultProxyUrl(),
+    validate: validateProxyUrl,
+  }))
+  return { host: '127.0.0.1', publicUrl: normalizePublicUrl(publicUrl), proxy: { server, tls: await promptTls(answers) } }
+}
+
+/**
+ * Asks whether to protect the API with an admin token. The default is yes
+ * whenever other machines can reach the board.
+ */
+async function resolveAdminToken(answers: InstallAnswers, nonInteractive: boolean, network: NetworkPlan): Promise<boolean> {
+  const shared = Boolean(network.publicUrl)
+  if (nonInteractive) return answers.adminToken ?? shared
+  return exitIfCancelled(await p.confirm({
+    message: 'Protect the board API with an admin token?',
+    initialValue: answers.adminToken ?? shared,
+  }))
+}
+
+function describeNetworkPlan(plan: NetworkPlan, port: number): string {
+  const url = boardUrl({ port, ...plan })
+  return plan.proxy ? `${url} (${plan.proxy.server}, ${plan.proxy.tls.mode === 'local-ca' ? 'local CA' : 'own certificate'})` : url
+}
+
+/** Writes the proxy config (issuing a certificate first if needed) and says how to enable it. */
+function setupProxy(config: InstallerConfig): ProxyRecord | undefined {
+  const { proxy, publicUrl } = config.network
+  if (!proxy || !publicUrl) return undefined
   
-  // Install CLI globally
-  spinner.message('Installing ocb CLI...')
-  const cliDir = join(installDir, 'cli')
-  if (existsSync(cliDir)) {
-    await runCommandLive('npm', ['install'], cliDir)
-    await runCommandLive('npm', ['link'], cliDir)
+  const tls = proxy.tls.mode === 'custom'
+    ? { cert: proxy.tls.cert, key: proxy.tls.key }
+    : issueLocalCertificate(config.installDir, publicUrl)
+  const record = writeProxyConfig(
+    config.installDir,
+    { port: config.port, host: config.network.host, publicUrl },
+    { server: proxy.server, ...tls },
+    config.instance,
+  )
+  
+  p.log.info(pc.bold(`${proxy.server === 'caddy' ? 'Caddy' : 'nginx'} config written to ${record.config}`))
+  for (const step of proxyInstructions(record, config.instance)) {
+    p.log.info(`  ${step}`)
   }
+  return record
 }
 
-async function setupLaunchAgent(config: InstallerConfig, spinner: ReturnType<typeof p.spinner>): Promise<void> {
-  if (process.platform !== 'darwin') {
-    p.log.warn('Auto-start is only supported on macOS')
-    return
+async function resolveDatabasePlan(mode: DatabaseMode, answers: InstallAnswers, nonInteractive: boolean): Promise<DatabasePlan> {
+  if (mode === 'docker') {
+    const runtime = detectContainerRuntime()
+    if (!runtime) {
+      throw new InstallerError('The container database option needs docker or podman on PATH.', ExitCode.Prerequisites)
+    }
+    return { mode, runtime }
   }
   
-  const { installDir, port } = config
-  const launchAgentsDir = join(homedir(), 'Library', 'LaunchAgents')
-  const plistPath = join(launchAgentsDir, 'com.openclaw.board.plist')
-  
-  mkdirSync(launchAgentsDir, { recursive: true })
-  
-  const npmPath = runCommand('which npm')
-  
-  const plistContent = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
-<plist version="1.0">
-<dict>
-    <key>Label</key>
-    <string>com.openclaw.board</string>
-    <key>ProgramArguments</key>
-    <array>
-        <string>${npmPath}</string>
-        <string>start</string>
-    </array>
-    <key>WorkingDirectory</key>
-    <string>${installDir}</string>
-    <key>EnvironmentVariables</key>
-    <dict>
-        <key>PATH</key>
-        <string>/usr/local/bin:/usr/bin:/bin:/opt/homebrew/bin</string>
-        <key>PORT</key>
-        <string>${port}</string>
-    </dict>
-    <key>RunAtLoad</key>
-    <true/>
-    <key>KeepAlive</key>
-    <true/>
-    <key>StandardOutPath</key>
-    <string>${installDir}/logs/stdout.log</string>
-    <key>StandardErrorPath</key>
-    <string>${installDir}/logs/stderr.log</string>
-</dict>
-</plist>`
-
-  mkdirSync(join(installDir, 'logs'), { recursive: true })
-  writeFileSync(plistPath, plistContent)
-  
-  spinner.message('Loading launch agent...')
+  if (mode === 'local') return { mode }
+  
+  if (!nonInteractive) return { mode, url: await promptExternalDatabase(answers) }
+  
+  if (!answers.dbHost || !answers.dbUser) {
+    throw new InstallerError('--database external needs at least --db-host and --db-user', ExitCode.InvalidConfig)
+  }
+  const url = buildDatabaseUrl({
+    host: answers.dbHost,
+    port: answers.dbPort ?? 5432,
+    user: answers.dbUser,
+    password: answers.dbPassword,
+    database: answers.dbName ?? instanceDatabase(answers.instance),
+    sslMode: answers.dbSslMode,
+  })
   try {
-    runCommand(`launchctl unload ${plistPath}`)
-  } catch {
-    // Ignore if not loaded
+    await checkExternalDatabase(url)
+  } catch (err) {
+    throw new InstallerError(`Cannot connect to ${describeDatabaseUrl(url)}: ${(err as Error).message}`, ExitCode.InvalidConfig)
+  }
+  return { mode, url }
+}
+
+function describeDatabasePlan(plan: DatabasePlan): string {
+  switch (plan.mode) {
+    case 'local': return 'Local PostgreSQL'
+    case 'external': return describeDatabaseUrl(plan.url)
+    case 'docker': return `${CONTAINER_IMAGE} container (${plan.runtime})`
+  }
+}
+
+async function provisionDatabase(
+  plan: DatabasePlan,
+  spinner: ReturnType<typeof p.spinner>,
+  journal: InstallJournal<InstallerConfig>,
+): Promise<{ databaseUrl: string; database: DatabaseRecord }> {
+  switch (plan.mode) {
+    case 'external':
+      return { databaseUrl: plan.url, database: { mode: 'external' } }
+    case 'docker': {
+      // A container from an interrupted run is reused; its password is only in the journal
+      const { databaseUrl: earlierUrl, database: earlier } = journal
+      if (earlierUrl && earlier?.container) {
+        spinner.message(`Starting ${earlier.container}...`)
+        await resumePostgresContainer(plan.runtime, earlier.container)
+        return { databaseUrl: earlierUrl, database: earlier }
+      }
+      spinner.message(`Starting ${CONTAINER_IMAGE} with ${plan.runtime}...`)
+      const { databaseUrl, ...container } = await startPostgresContainer(plan.runtime, journal.instance, (created) => {
+        const { databaseUrl, ...container } = created
+        journal.databaseUrl = databaseUrl
+        journal.database = { mode: 'docker', ...container }
+        writeJournal(journal)
+      })
+      return { databaseUrl, database: { mode: 'docker', ...container } }
+    }
+    case 'local':
+      return { databaseUrl: await setupDatabase(spinner, instanceDatabase(journal.instance)), database: { mode: 'local' } }
   }
-  runCommand(`launchctl load ${plistPath}`)
 }
 
-export async function runInstaller(): Promise<void> {
-  console.clear()
+/** Points at the transcript after a failure, if there is one to read. */
+function reportTranscript(installDir: string): void {
+  const transcript = transcriptPath(installDir)
+  if (existsSync(transcript)) p.log.info(pc.dim(`Full output of every command: ${transcript}`))
+}
+
+async function runUpdate(existing: ExistingInstall, pin?: VersionPin, bundle?: string): Promise<UpdateReport> {
+  const spinner = p.spinner()
+  spinner.start('Updating OpenClaw Board...')
   
-  p.intro(pc.cyan(pc.bold('OpenClaw Board Installer')))
+  const report = await performUpdate({
+    install: existing.install,
+    service: existing.service,
+    pin,
+    bundle,
+    onProgress: (message) => spinner.message(message),
+  })
   
-  // Check for existing installation first
-  const existing = detectExistingInstall()
+  spinner.stop(report.ok ? 'Update complete' : 'Update failed')
+  for (const line of formatUpdateReport(report)) {
+    p.log.info(line)
+  }
   
-  if (existing) {
-    p.log.info(pc.green('✓ Existing installation detected'))
-    p.log.info(`  Directory: ${pc.cyan(existing.installDir)}`)
-    p.log.info(`  Port: ${pc.cyan(String(existing.port))}`)
-    p.log.info(`  Auto-start: ${pc.cyan(existing.hasLaunchAgent ? 'Yes' : 'No')}`)
-    p.log.info('')
-    
-    const action = await p.select({
-      message: 'What would you like to do?',
-      options: [
-        { value: 'update', label: 'Update', hint: 'Pull latest code and run migrations' },
-        { value: 'fresh', label: 'Fresh Install', hint: 'Remove and reinstall from scratch' },
-        { value: 'cancel', label: 'Cancel' },
-      ],
-    })
+  if (!report.ok) {
+    reportTranscript(existing.installDir)
+    p.outro(pc.red(report.rollback ? 'Update failed and was rolled back' : 'Update aborted'))
+    return report
+  }
+  
+  p.log.info(`Board URL: ${pc.cyan(boardUrl(existing.install))}`)
+  p.outro(pc.green('✓ OpenClaw Board updated'))
+  return report
+}
+
+/**
+ * Clones the board and sets it up, one journaled step at a time. Every step
+ * can run again after failing partway, so a resumed install repeats the
+ * failed step in full.
+ */
+async function cloneAndSetup(
+  config: InstallerConfig,
+  journal: InstallJournal<InstallerConfig>,
+  spinner: ReturnType<typeof p.spinner>,
+): Promise<{ databaseUrl: string; database: DatabaseRecord }> {
+  const { installDir, port } = config
+  
+  await runStep(journal, 'clone', async () => {
+    // The directory was checked to be new when the install started, so anything here is a broken clone
+    rmSync(installDir, { recursive: true, force: true })
     
-    if (p.isCancel(action) || action === 'cancel') {
-      p.outro(pc.yellow('Cancelled.'))
-      process.exit(0)
+    if (config.bundle) {
+      spinner.message('Unpacking offline bundle...')
+      const bundle = await unpackBundle(config.bundle)
+      try {
+        installFromBundle(bundle, installDir)
+      } finally {
+        discardBundle(bundle)
+      }
+      return
     }
     
-    if (action === 'update') {
-      await runUpdate(existing)
-      process.exit(0)
-    }
+    // Resolve the pin before cloning so a bad --version fails without leaving a directory behind
+    const source = config.source ?? REPO_URL
+    spinner.message(`Resolving ${describePin(config.pin)}...`)
+    const target = resolveTarget(config.pin, config.pin ? listRemoteRefs(source) : undefined)
     
-    // Fresh install - confirm deletion
-    const confirmDelete = await p.confirm({
-      message: `This will delete ${existing.installDir}. Continue?`,
-      initialValue: false,
-    })
+    spinner.message('Cloning OpenClaw Board...')
+    await runCommandAsync('git', ['clone', source, installDir])
     
-    if (p.isCancel(confirmDelete) || !confirmDelete) {
-      p.outro(pc.yellow('Cancelled.'))
-      process.exit(0)
+    if (config.pin) {
+      spinner.message(`Checking out ${describeTarget(target)}...`)
+      await checkoutTarget(installDir, target)
     }
-    
-    // Remove existing
-    const rmSpinner = p.spinner()
-    rmSpinner.start('Removing existing installation...')
-    await runCommandLive('rm', ['-rf', existing.installDir])
-    rmSpinner.stop('Removed')
+  })
+  
+  // A bundle brings its node_modules along
+  await runStep(journal, 'deps', async () => {
+    if (config.bundle) return
+    spinner.message('Installing dependencies...')
+    await runCommandAsync('npm', ['install'], { cwd: installDir })
+  })
+  
+  await runStep(journal, 'database', async () => {
+    const db = await provisionDatabase(config.database, spinner, journal)
+    journal.databaseUrl = db.databaseUrl
+    journal.database = db.database
+  })
+  const databaseUrl = journal.databaseUrl!
+  const envPath = join(installDir, '.env')
+  
+  // Update .env in place so keys the board ships (via .env.example) are kept
+  await runStep(journal, 'env', async () => {
+    spinner.message('Configuring environment...')
+    const rerun = existsSync(envPath)
+    const env = readEnvFile(rerun ? envPath : join(installDir, '.env.example'))
+    setEnvValue(env, 'DATABASE_URL', databaseUrl, '"')
+    setEnvValue(env, 'PORT', String(port))
+    if (config.network.host) setEnvValue(env, 'HOST', config.network.host)
+    if (config.network.publicUrl) setEnvValue(env, 'PUBLIC_URL', config.network.publicUrl)
+    // A token written by an earlier attempt is kept
+    if (config.adminToken && !(rerun && getEnvValue(env, TOKEN_KEY))) setEnvValue(env, TOKEN_KEY, generateToken())
+    writeEnvFile(envPath, env)
+  })
+  
+  // Run Prisma setup
+  await runStep(journal, 'schema', async () => {
+    spinner.message('Setting up database schema...')
+    await runCommandAsync('npx', ['prisma', 'generate'], { cwd: installDir })
+    await runCommandAsync('npx', ['prisma', 'db', 'push'], { cwd: installDir })
+  })
+  
+  // Install CLI globally
+  await runStep(journal, 'cli', async () => {
+    spinner.message('Installing ocb CLI...')
+    const cliDir = join(installDir, 'cli')
+    if (!existsSync(cliDir)) return
+    if (!config.bundle) await runCommandAsync('npm', ['install'], { cwd: cliDir })
+    await runCommandAsync('npm', config.bundle ? ['link', '--offline'] : ['link'], { cwd: cliDir })
+    const token = config.adminToken ? getEnvValue(readEnvFile(envPath), TOKEN_KEY) : undefined
+    if (token) configureCli({ port, host: config.network.host, instance: config.instance }, token)
+  })
+  
+  return { databaseUrl, database: journal.database! }
+}
+
+async function setupLaunchAgent(config: InstallerConfig, spinner: ReturnType<typeof p.spinner>): Promise<ServiceBackend | null> {
+  const service = platformServiceManager({
+    instance: config.instance,
+    installDir: config.installDir,
+    port: config.port,
+    host: config.network.host,
+    logRotation: config.logRotation,
+    onWarning: (message) => p.log.warn(message),
+  })
+  
+  if (!service) {
+    p.log.warn('Auto-start is only supported on macOS (launchd) and Linux (systemd)')
+    return null
   }
   
-  // Check prerequisites
+  spinner.message(`Installing ${service.name} service...`)
+  await service.install()
+  return service.name
+}
+
+/** Checks the prerequisites, explaining how to install whatever is missing. */
+async function ensurePrerequisites(steps: UpdateStep[]): Promise<void> {
   const prereqSpinner = p.spinner()
   prereqSpinner.start('Checking prerequisites...')
   
@@ -342,22 +766,58 @@ export async function runInstaller(): Promise<void> {
       }
     }
     
-    p.outro(pc.red('Please install missing dependencies and try again.'))
-    process.exit(1)
+    throw new InstallerError(`Missing prerequisites: ${missing.join(', ')}`, ExitCode.Prerequisites)
   }
   
   prereqSpinner.stop('Prerequisites OK')
+  steps.push({ name: 'Check prerequisites', status: 'ok' })
+}
+
+/** Reads an archive for --import-from; called before anything is installed so a bad one fails early. */
+function loadArchive(file: string): BoardArchive {
+  requirePsql()
+  return readArchive(file)
+}
+
+/** Asks for (or reads from the answers) the settings of a fresh install and confirms them. */
+async function configureInstall(
+  answers: InstallAnswers,
+  nonInteractive: boolean,
+  instance: string | undefined,
+  steps: UpdateStep[],
+): Promise<{ config: InstallerConfig; archive?: BoardArchive }> {
+  // Checked first so a bad bundle or mirror fails before any questions
+  const bundle = answers.fromBundle ? readBundleManifest(answers.fromBundle) : undefined
+  const source = answers.source ? resolveSource(answers.source) : undefined
+  const mismatch = bundle && nodeMismatch(bundle)
+  if (mismatch) p.log.warn(pc.yellow(mismatch))
+  
+  const databaseMode = await chooseDatabaseMode(answers, nonInteractive)
   
   // Check for PostgreSQL
-  const hasPostgres = await checkPostgres()
+  const hasPostgres = databaseMode !== 'local' || await checkPostgres()
   
   if (!hasPostgres) {
-    const installPg = await p.confirm({
-      message: 'PostgreSQL is not installed. Install it via Homebrew?',
-      initialValue: true,
-    })
+    let installPg = answers.postgres === 'install'
+    
+    if (!installPg && nonInteractive) {
+      throw new InstallerError(
+        'PostgreSQL is not installed. Install it manually or pass --postgres install.',
+        ExitCode.Prerequisites,
+      )
+    }
+    
+    if (!installPg) {
+      const confirmed = await p.confirm({
+        message: process.platform === 'darwin'
+          ? 'PostgreSQL is not installed. Install it via Homebrew?'
+          : 'PostgreSQL is not installed. Install it with your package manager (needs sudo)?',
+        initialValue: true,
+      })
+      installPg = !p.isCancel(confirmed) && confirmed
+    }
     
-    if (p.isCancel(installPg) || !installPg) {
+    if (!installPg) {
       p.log.info('Please install PostgreSQL manually and try again.')
       p.outro(pc.yellow('Installation cancelled.'))
       process.exit(0)
@@ -369,94 +829,311 @@ export async function runInstaller(): Promise<void> {
     try {
       await installPostgres(pgSpinner)
       pgSpinner.stop('PostgreSQL installed')
+      steps.push({ name: 'Install PostgreSQL', status: 'ok' })
     } catch (err) {
       pgSpinner.stop('PostgreSQL installation failed')
       throw err
     }
   }
   
-  // Configuration prompts
-  const installDir = await p.text({
-    message: 'Installation directory',
-    initialValue: DEFAULT_INSTALL_DIR,
-    validate: (value) => {
-      if (!value) return 'Directory is required'
-      if (existsSync(value)) return 'Directory already exists'
-      return undefined
-    },
-  })
-  
-  if (p.isCancel(installDir)) {
-    p.outro(pc.yellow('Installation cancelled.'))
-    process.exit(0)
-  }
-  
-  const portInput = await p.text({
-    message: 'Port number',
-    initialValue: String(DEFAULT_PORT),
-    validate: (value) => {
-      const num = parseInt(value, 10)
-      if (isNaN(num) || num < 1 || num > 65535) {
-        return 'Please enter a valid port (1-65535)'
-      }
-      return undefined
-    },
-  })
-  
-  if (p.isCancel(portInput)) {
-    p.outro(pc.yellow('Installation cancelled.'))
-    process.exit(0)
-  }
-  
-  const autoStart = await p.confirm({
-    message: 'Start automatically on boot?',
-    initialValue: true,
-  })
+  let config: InstallerConfig
   
-  if (p.isCancel(autoStart)) {
-    p.outro(pc.yellow('Installation cancelled.'))
-    process.exit(0)
+  if (nonInteractive) {
+    const database = await resolveDatabasePlan(databaseMode, answers, nonInteractive)
+    const port = answers.port ?? defaultPort(instance)
+    const network = await resolveNetworkPlan(answers, nonInteractive, port)
+    config = {
+      instance,
+      installDir: answers.installDir ?? instanceDir(instance),
+      port,
+      autoStart: answers.autoStart ?? true,
+      database,
+      network,
+      adminToken: await resolveAdminToken(answers, nonInteractive, network),
+      logRotation: rotationPolicy(answers),
+      pin: bundle ? bundle.pin : answers.pin,
+      importFrom: answers.importFrom,
+      source,
+      bundle: answers.fromBundle,
+    }
+    
+    const dirError = validateInstallDir(config.installDir)
+    if (dirError) {
+      throw new InstallerError(`Installation directory ${config.installDir}: ${dirError}`, ExitCode.InvalidConfig)
+    }
+    
+    const conflict = await checkPortConflict(config.port)
+    if (conflict) {
+      const hint = conflict.suggestion ? `pass --port ${conflict.suggestion}` : 'choose another with --port'
+      throw new InstallerError(`${formatPortConflict(conflict)}; ${hint}`, ExitCode.InvalidConfig)
+    }
+  } else {
+    // Configuration prompts
+    const installDir = await p.text({
+      message: 'Installation directory',
+      initialValue: answers.installDir ?? instanceDir(instance),
+      validate: validateInstallDir,
+    })
+    
+    if (p.isCancel(installDir)) {
+      p.outro(pc.yellow('Installation cancelled.'))
+      process.exit(0)
+    }
+    
+    const port = await promptPort(answers.port ?? defaultPort(instance))
+    
+    const autoStart = await p.confirm({
+      message: 'Start automatically on boot?',
+      initialValue: answers.autoStart ?? true,
+    })
+    
+    if (p.isCancel(autoStart)) {
+      p.outro(pc.yellow('Installation cancelled.'))
+      process.exit(0)
+    }
+    
+    const database = await resolveDatabasePlan(databaseMode, answers, nonInteractive)
+    const network = await resolveNetworkPlan(answers, nonInteractive, port)
+    config = {
+      instance,
+      installDir: installDir as string,
+      port,
+      autoStart: autoStart as boolean,
+      database,
+      network,
+      adminToken: await resolveAdminToken(answers, nonInteractive, network),
+      logRotation: rotationPolicy(answers),
+      pin: bundle ? bundle.pin : answers.pin,
+      importFrom: answers.importFrom,
+      source,
+      bundle: answers.fromBundle,
+    }
   }
   
-  const config: InstallerConfig = {
-    installDir: installDir as string,
-    port: parseInt(portInput as string, 10),
-    autoStart: autoStart as boolean,
-  }
+  // Checked before anything is installed so a bad archive doesn't leave a half-set-up board
+  const archive = answers.importFrom ? loadArchive(answers.importFrom) : undefined
   
   // Confirm
   p.log.info('')
   p.log.info(pc.bold('Configuration:'))
+  p.log.info(`  Instance: ${pc.cyan(describeInstance(config.instance))}`)
   p.log.info(`  Directory: ${pc.cyan(config.installDir)}`)
   p.log.info(`  Port: ${pc.cyan(String(config.port))}`)
+  p.log.info(`  URL: ${pc.cyan(describeNetworkPlan(config.network, config.port))}`)
   p.log.info(`  Auto-start: ${pc.cyan(config.autoStart ? 'Yes' : 'No')}`)
+  p.log.info(`  Admin token: ${pc.cyan(config.adminToken ? 'Yes' : 'No')}`)
+  p.log.info(`  Database: ${pc.cyan(describeDatabasePlan(config.database))}`)
+  p.log.info(`  Log rotation: ${pc.cyan(describeRotation(config.logRotation))}`)
+  p.log.info(`  Version: ${pc.cyan(bundle ? `${describeBundle(bundle)} (offline bundle)` : describePin(config.pin))}`)
+  if (config.source) p.log.info(`  Source: ${pc.cyan(config.source)}`)
+  if (archive) p.log.info(`  Import: ${pc.cyan(`${answers.importFrom} (${countRows(archive)} rows)`)}`)
   p.log.info('')
   
-  const proceed = await p.confirm({
-    message: 'Proceed with installation?',
-    initialValue: true,
+  if (!nonInteractive) {
+    const proceed = await p.confirm({
+      message: 'Proceed with installation?',
+      initialValue: true,
+    })
+    
+    if (p.isCancel(proceed) || !proceed) {
+      p.outro(pc.yellow('Installation cancelled.'))
+      process.exit(0)
+    }
+  }
+  
+  return { config, archive }
+}
+
+/** Removes what an unfinished install left behind: its directory, container and journal. */
+async function discardUnfinishedInstall(journal: InstallJournal<InstallerConfig>, steps: UpdateStep[]): Promise<void> {
+  const rmSpinner = p.spinner()
+  rmSpinner.start('Removing unfinished installation...')
+  rmSync(journal.installDir, { recursive: true, force: true })
+  const { database } = journal
+  if (database?.runtime && database.container) {
+    try {
+      removePostgresContainer(database.runtime, database.container, database.volume)
+    } catch {
+      // Already gone
+    }
+  }
+  clearJournal(journal.instance)
+  rmSpinner.stop('Removed')
+  steps.push({ name: 'Remove unfinished installation', status: 'ok' })
+}
+
+/**
+ * Removes a complete install before a fresh one: its service, its database
+ * container and data volume (a kept volume would ignore the new container's
+ * password), its directory and its state.
+ */
+async function removeExistingInstall(existing: ExistingInstall, steps: UpdateStep[]): Promise<void> {
+  const rmSpinner = p.spinner()
+  rmSpinner.start('Removing existing installation...')
+  const { install, service } = existing
+  await service.stop().catch(() => {
+    // Not running
   })
+  await service.uninstall()
+  if (install.database?.runtime && install.database.container) {
+    try {
+      removePostgresContainer(install.database.runtime, install.database.container, install.database.volume)
+    } catch {
+      // Already gone
+    }
+  }
+  rmSync(existing.installDir, { recursive: true, force: true })
+  clearState(install)
+  rmSpinner.stop('Removed')
+  steps.push({ name: 'Remove existing installation', status: 'ok' })
+}
+
+/**
+ * Offers to resume an install that stopped partway, or to remove it and
+ * start over. Returns the journal to resume from, or null for a fresh start.
+ */
+async function handleUnfinishedInstall(
+  journal: InstallJournal<InstallerConfig>,
+  answers: InstallAnswers,
+  nonInteractive: boolean,
+  steps: UpdateStep[],
+): Promise<InstallJournal<InstallerConfig> | null> {
+  const next = nextStep(journal)
+  p.log.warn(pc.yellow('Unfinished installation detected'))
+  p.log.info(`  Instance: ${pc.cyan(describeInstance(journal.instance))}`)
+  p.log.info(`  Directory: ${pc.cyan(journal.installDir)}`)
+  if (journal.failed) {
+    p.log.info(`  Failed at: ${pc.cyan(STEP_LABELS[journal.failed.step])} (${journal.failed.message.split('\n')[0].replace(/:$/, '')})`)
+  } else if (next) {
+    p.log.info(`  Stopped before: ${pc.cyan(STEP_LABELS[next])}`)
+  }
+  p.log.info('')
   
-  if (p.isCancel(proceed) || !proceed) {
-    p.outro(pc.yellow('Installation cancelled.'))
+  let action = answers.existing
+  
+  if (action === 'update') {
+    throw new InstallerError(
+      `The installation at ${journal.installDir} never finished, so there is nothing to update. Pass --existing resume or fresh.`,
+      ExitCode.InvalidConfig,
+    )
+  }
+  
+  if (!action) {
+    if (nonInteractive) {
+      throw new InstallerError(
+        `Unfinished installation found at ${journal.installDir}. Pass --existing resume|fresh|cancel to choose what to do.`,
+        ExitCode.ExistingInstall,
+      )
+    }
+    
+    const selected = await p.select({
+      message: 'What would you like to do?',
+      options: [
+        { value: 'resume', label: 'Resume', hint: next ? `Continue from "${STEP_LABELS[next]}"` : 'Finish the installation' },
+        { value: 'fresh', label: 'Fresh Install', hint: 'Remove it and start over' },
+        { value: 'cancel', label: 'Cancel' },
+      ],
+    })
+    action = p.isCancel(selected) ? 'cancel' : selected as ExistingAction
+  }
+  
+  if (action === 'cancel') {
+    p.outro(pc.yellow('Cancelled.'))
+    if (isJsonMode()) printJson('install', { ok: true, action: 'none', instance: describeInstance(journal.instance), installDir: journal.installDir })
     process.exit(0)
   }
   
+  if (action === 'resume') return journal
+  
+  if (!answers.existing) {
+    const confirmDelete = await p.confirm({
+      message: `This will delete ${journal.installDir}. Continue?`,
+      initialValue: false,
+    })
+    
+    if (p.isCancel(confirmDelete) || !confirmDelete) {
+      p.outro(pc.yellow('Cancelled.'))
+      process.exit(0)
+    }
+  }
+  
+  await discardUnfinishedInstall(journal, steps)
+  return null
+}
+
+/** Runs the install steps, skipping those the journal says are done, and records the result. */
+async function performInstall(
+  config: InstallerConfig,
+  journal: InstallJournal<InstallerConfig>,
+  archive: BoardArchive | undefined,
+  steps: UpdateStep[],
+): Promise<void> {
+  const resumed = journal.completed.length > 0 || Boolean(journal.failed)
+  const next = nextStep(journal)
+  if (resumed && next) p.log.info(`Resuming from: ${pc.cyan(STEP_LABELS[next])}`)
+  
+  attachTranscript(config.installDir)
+  
   // Run installation
   const installSpinner = p.spinner()
   installSpinner.start('Installing OpenClaw Board...')
   
   try {
-    await cloneAndSetup(config, installSpinner)
+    const { databaseUrl, database } = await cloneAndSetup(config, journal, installSpinner)
     installSpinner.stop('OpenClaw Board installed')
+    steps.push({ name: 'Install board', status: 'ok', detail: describeDatabasePlan(config.database) })
+    steps.push({ name: 'Generate admin token', status: config.adminToken ? 'ok' : 'skipped' })
+    
+    if (archive) {
+      const importSpinner = p.spinner()
+      importSpinner.start('Importing board data...')
+      try {
+        let rows = 0
+        await runStep(journal, 'import', async () => {
+          rows = importArchive(databaseUrl, archive, 'replace').reduce((total, table) => total + table.imported, 0)
+        })
+        importSpinner.stop(`Imported ${rows} rows from ${basename(config.importFrom!)}`)
+        steps.push({ name: 'Import data', status: 'ok', detail: config.importFrom })
+      } catch (err) {
+        importSpinner.stop('Import failed')
+        throw err
+      }
+    }
     
+    let service: ServiceBackend | null = null
     if (config.autoStart) {
       const launchSpinner = p.spinner()
       launchSpinner.start('Setting up auto-start...')
-      await setupLaunchAgent(config, launchSpinner)
+      await runStep(journal, 'service', async () => {
+        journal.service = await setupLaunchAgent(config, launchSpinner)
+      })
+      service = journal.service ?? null
       launchSpinner.stop('Auto-start configured')
+      steps.push({ name: 'Configure auto-start', status: service ? 'ok' : 'skipped', detail: service ?? 'unsupported platform' })
+    } else {
+      steps.push({ name: 'Configure auto-start', status: 'skipped' })
     }
     
+    const proxy = setupProxy(config)
+    if (proxy) steps.push({ name: 'Generate proxy config', status: 'ok', detail: proxy.config })
+    
+    const url = boardUrl({ port: config.port, ...config.network })
+    const checkout = describeCheckout(config.installDir)
+    writeState({
+      instance: config.instance,
+      installDir: config.installDir,
+      port: config.port,
+      databaseUrl,
+      database,
+      proxy,
+      service: service === 'launchd' || service === 'systemd' ? service : 'process',
+      ...checkout,
+      pin: config.pin,
+      logRotation: config.logRotation,
+      installedAt: new Date().toISOString(),
+    })
+    clearJournal(config.instance)
+    
     p.log.success(pc.green('Installation complete!'))
     p.log.info('')
     p.log.info(pc.bold('Next steps:'))
@@ -464,17 +1141,155 @@ export async function runInstaller(): Promise<void> {
     p.log.info(`  ${pc.cyan('npm run dev')}  ${pc.dim('# Development mode')}`)
     p.log.info(`  ${pc.cyan('npm start')}    ${pc.dim('# Production mode')}`)
     p.log.info('')
-    p.log.info(`Open in browser: ${pc.cyan(`http://localhost:${config.port}`)}`)
+    p.log.info(`Open in browser: ${pc.cyan(url)}`)
     p.log.info('')
     p.log.info(pc.bold('CLI installed:'))
     p.log.info(`  ${pc.cyan('ocb list')}     ${pc.dim('# List tasks')}`)
     p.log.info(`  ${pc.cyan('ocb todo')}     ${pc.dim('# Show TODOs')}`)
     p.log.info(`  ${pc.cyan('ocb --help')}   ${pc.dim('# All commands')}`)
+    if (config.adminToken) {
+      p.log.info('')
+      p.log.info(`The API requires the ${TOKEN_KEY} in ${join(config.installDir, '.env')}; ocb is already set up with it.`)
+      p.log.info(`Replace it with: ${pc.cyan('npx openclaw-board-installer token rotate')}`)
+    }
     
     p.outro(pc.green('Happy tasking! 🎯'))
     
+    if (isJsonMode()) {
+      printJson('install', {
+        ok: true,
+        action: 'install',
+        instance: describeInstance(config.instance),
+        installDir: config.installDir,
+        port: config.port,
+        url,
+        service: service ?? null,
+        database: { mode: database.mode },
+        adminToken: config.adminToken,
+        resumed,
+        version: checkout.version ?? null,
+        commit: checkout.commit ?? null,
+        tracking: describePin(config.pin),
+        steps,
+      })
+    }
+    
   } catch (err) {
     installSpinner.stop('Installation failed')
+    reportTranscript(config.installDir)
     throw err
   }
 }
+
+export async function runInstaller(argv: string[] = []): Promise<void> {
+  const { nonInteractive, verbose, answers } = parseInstallArgs(argv)
+  setVerbose(verbose)
+  // Commands run before the install directory is known; keep them for its transcript
+  holdTranscript()
+  
+  if (!nonInteractive) {
+    console.clear()
+  }
+  
+  p.intro(pc.cyan(pc.bold('OpenClaw Board Installer')))
+  
+  const steps: UpdateStep[] = []
+  const instance = namedInstance(answers.instance)
+  
+  // An install that stopped partway has a journal; its directory may already look like an install
+  const unfinished = readJournal<InstallerConfig>(instance)
+  const resumed = unfinished && (!answers.installDir || unfinished.installDir === answers.installDir)
+    ? await handleUnfinishedInstall(unfinished, answers, nonInteractive, steps)
+    : null
+  
+  // Check for existing installation
+  const existing = resumed ? null : detectExistingInstall(answers.installDir, instance)
+  
+  if (existing) {
+    p.log.info(pc.green('✓ Existing installation detected'))
+    p.log.info(`  Instance: ${pc.cyan(describeInstance(instance))}`)
+    p.log.info(`  Directory: ${pc.cyan(existing.installDir)}`)
+    p.log.info(`  Port: ${pc.cyan(String(existing.port))}`)
+    p.log.info(`  Auto-start: ${pc.cyan(existing.hasService ? 'Yes' : 'No')}`)
+    p.log.info('')
+    
+    let action = answers.existing
+    
+    if (!action) {
+      if (nonInteractive) {
+        throw new InstallerError(
+          `Existing installation found at ${existing.installDir}. Pass --existing update|fresh|cancel to choose what to do.`,
+          ExitCode.ExistingInstall,
+        )
+      }
+      
+      const selected = await p.select({
+        message: 'What would you like to do?',
+        options: [
+          { value: 'update', label: 'Update', hint: 'Pull latest code and run migrations' },
+          { value: 'fresh', label: 'Fresh Install', hint: 'Remove and reinstall from scratch' },
+          { value: 'cancel', label: 'Cancel' },
+        ],
+      })
+      action = p.isCancel(selected) ? 'cancel' : selected as ExistingAction
+    }
+    
+    if (action === 'resume') {
+      throw new InstallerError(
+        `The installation at ${existing.installDir} is complete; there is nothing to resume. Pass --existing update or fresh.`,
+        ExitCode.InvalidConfig,
+      )
+    }
+    
+    if (action === 'cancel') {
+      p.outro(pc.yellow('Cancelled.'))
+      if (isJsonMode()) printJson('install', { ok: true, action: 'none', instance: describeInstance(instance), installDir: existing.installDir })
+      process.exit(0)
+    }
+    
+    if (action === 'update') {
+      attachTranscript(existing.installDir)
+      const report = await runUpdate(existing, answers.pin, answers.fromBundle)
+      if (isJsonMode()) printJson('install', { ...report, action: 'update', instance: describeInstance(instance), installDir: existing.installDir })
+      process.exit(report.ok ? ExitCode.Ok : ExitCode.Failure)
+    }
+    
+    // Fresh install - confirm deletion (an explicit --existing fresh counts as confirmation)
+    if (!answers.existing) {
+      const { database } = existing.install
+      const confirmDelete = await p.confirm({
+        message: database?.container
+          ? `This will delete ${existing.installDir} and the ${database.container} container with its data. Continue?`
+          : `This will delete ${existing.installDir}. Continue?`,
+        initialValue: false,
+      })
+      
+      if (p.isCancel(confirmDelete) || !confirmDelete) {
+        p.outro(pc.yellow('Cancelled.'))
+        process.exit(0)
+      }
+    }
+    
+    await removeExistingInstall(existing, steps)
+  }
+  
+  await ensurePrerequisites(steps)
+  
+  if (resumed) {
+    const { config } = resumed
+    const archive = config.importFrom && !resumed.completed.includes('import') ? loadArchive(config.importFrom) : undefined
+    await performInstall(config, resumed, archive, steps)
+    return
+  }
+  
+  const { config, archive } = await configureInstall(answers, nonInteractive, instance, steps)
+  const journal: InstallJournal<InstallerConfig> = {
+    instance: config.instance,
+    installDir: config.installDir,
+    config,
+    completed: [],
+    startedAt: new Date().toISOString(),
+  }
+  writeJournal(journal)
+  await performInstall(config, journal, archive, steps)
+}
@@ -0,0 +1,49 @@
+import { homedir } from 'os'
+import { join } from 'path'
+
+/**
+ * Several boards can share a machine as named instances. The default
+ * instance keeps the original names (~/openclaw-board, openclaw_board,
+ * com.openclaw.board, ...) so installs from before instances existed are
+ * still found; a named one adds its name to each of them.
+ */
+export const DEFAULT_INSTANCE = 'default'
+
+export function validateInstanceName(value: string | undefined): string | undefined {
+  if (!value) return 'Instance name is required'
+  if (!/^[a-z0-9][a-z0-9-]{0,31}$/.test(value)) {
+    return 'Use up to 32 lowercase letters, digits and dashes, starting with a letter or digit'
+  }
+  return undefined
+}
+
+/** The instance name as stored: undefined for the default instance. */
+export function namedInstance(instance: string | undefined): string | undefined {
+  return instance && instance !== DEFAULT_INSTANCE ? instance : undefined
+}
+
+export function describeInstance(instance: string | undefined): string {
+  return namedInstance(instance) ?? DEFAULT_INSTANCE
+}
+
+function suffix(instance: string | undefined, separator: string): string {
+  const name = namedInstance(instance)
+  return name ? `${separator}${name}` : ''
+}
+
+export function instanceDir(instance?: string): string {
+  return join(homedir(), `openclaw-board${suffix(instance, '-')}`)
+}
+
+export function instanceDatabase(instance?: string): string {
+  return `openclaw_board${suffix(instance, '_')}`.replace(/-/g, '_')
+}
+
+/** Prefix for container, unit and config file names */
+export function instanceSlug(instance?: string): string {
+  return `openclaw-board${suffix(instance, '-')}`
+}
+
+export function launchdLabel(instance?: string): string {
+  return `com.openclaw.board${suffix(instance, '.')}`
+}
@@ -0,0 +1,101 @@
+import { chmodSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { ExitCode, InstallerError } from './errors.js'
+import { DEFAULT_INSTANCE, namedInstance } from './instances.js'
+import type { ServiceBackend } from './services/index.js'
+import { STATE_DIR, type DatabaseRecord } from './state.js'
+
+/**
+ * A fresh install records each step as it finishes, so one that fails halfway
+ * can be resumed rather than started over. The journal sits next to the state
+ * file because the install directory doesn't exist until the clone, and it is
+ * removed once the install completes.
+ */
+export const INSTALL_STEPS = ['clone', 'deps', 'database', 'env', 'schema', 'cli', 'import', 'service'] as const
+export type InstallStep = typeof INSTALL_STEPS[number]
+
+export const STEP_LABELS: Record<InstallStep, string> = {
+  clone: 'Clone repository',
+  deps: 'Install dependencies',
+  database: 'Provision database',
+  env: 'Write .env',
+  schema: 'Set up database schema',
+  cli: 'Link ocb CLI',
+  import: 'Import data',
+  service: 'Configure auto-start',
+}
+
+export interface InstallJournal<Config = unknown> {
+  /** Absent for the default instance */
+  instance?: string
+  installDir: string
+  /** The settings the install started with; resuming reuses them */
+  config: Config
+  completed: InstallStep[]
+  /** Results of finished steps that later ones need */
+  databaseUrl?: string
+  database?: DatabaseRecord
+  service?: ServiceBackend | null
+  failed?: { step: InstallStep; message: string; at: string }
+  startedAt: string
+  updatedAt?: string
+}
+
+export function journalPath(instance?: string): string {
+  return join(STATE_DIR, 'journals', `${namedInstance(instance) ?? DEFAULT_INSTANCE}.json`)
+}
+
+export function readJournal<Config>(instance?: string): InstallJournal<Config> | null {
+  try {
+    const journal = JSON.parse(readFileSync(journalPath(instance), 'utf-8')) as Partial<InstallJournal<Config>>
+    if (typeof journal.installDir !== 'string' || !Array.isArray(journal.completed) || !journal.config) return null
+    return journal as InstallJournal<Config>
+  } catch {
+    return null
+  }
+}
+
+export function writeJournal(journal: InstallJournal): void {
+  const path = journalPath(journal.instance)
+  mkdirSync(dirname(path), { recursive: true })
+  // Holds the database URL and settings, which may include passwords
+  writeFileSync(path, JSON.stringify({ ...journal, updatedAt: new Date().toISOString() }, null, 2) + '\n')
+  chmodSync(path, 0o600)
+}
+
+export function clearJournal(instance?: string): void {
+  rmSync(journalPath(instance), { force: true })
+}
+
+/** The step a resume starts from: the one that failed, else the first unfinished one. */
+export function nextStep(journal: InstallJournal): InstallStep | undefined {
+  return journal.failed?.step ?? INSTALL_STEPS.find(step => !journal.completed.includes(step))
+}
+
+/**
+ * Runs a step unless an earlier run finished it, and records the outcome.
+ * Steps must be safe to run again after failing partway. Returns whether the
+ * step ran.
+ */
+export async function runStep(journal: InstallJournal, step: InstallStep, run: () => Promise<void>): Promise<boolean> {
+  if (journal.completed.includes(step)) return false
+
+  try {
+    await run()
+  } catch (err) {
+    const message = (err as Error).message
+    journal.failed = { step, message, at: new Date().toISOString() }
+    writeJournal(journal)
+    const instance = namedInstance(journal.instance)
+    throw new InstallerError(
+      `${STEP_LABELS[step]} failed: ${message}\n` +
+      `Run the installer again${instance ? ` with --instance ${instance}` : ''} to resume from this step.`,
+      err instanceof InstallerError ? err.exitCode : ExitCode.Failure,
+    )
+  }
+
+  journal.completed.push(step)
+  delete journal.failed
+  writeJournal(journal)
+  return true
+}
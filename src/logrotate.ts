@@ -0,0 +1,28 @@
+import { parseArgs } from 'util'
+import { rotateLogs } from './rotation.js'
+
+/**
+ * Entry point of the scheduled log rotation job. Service installs copy it into
+ * the install's bin/ (see services/rotate-job.ts) and pass the limits as flags.
+ */
+const { values } = parseArgs({
+  options: {
+    'install-dir': { type: 'string' },
+    'max-bytes': { type: 'string' },
+    'max-age-ms': { type: 'string' },
+    keep: { type: 'string' },
+  },
+})
+
+const installDir = values['install-dir']
+const policy = {
+  maxBytes: Number(values['max-bytes']),
+  maxAgeMs: Number(values['max-age-ms']),
+  keep: Number(values.keep),
+}
+if (!installDir || !Object.values(policy).every(n => Number.isInteger(n) && n > 0)) {
+  console.error('Usage: logrotate --install-dir <dir> --max-bytes <n> --max-age-ms <n> --keep <n>')
+  process.exit(2)
+}
+
+await rotateLogs(installDir, policy)
@@ -0,0 +1,321 @@
+import { spawn } from 'child_process'
+import { closeSync, existsSync, openSync, readSync, statSync } from 'fs'
+import { createInterface } from 'readline'
+import pc from 'picocolors'
+import { parseDuration, parseFlags } from './args.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { commandExists, runCommand } from './exec.js'
+import { isJsonMode, type CommandResult } from './output.js'
+import { formatSize } from './backups.js'
+import { DEFAULT_ROTATION, rotateLogs, type RotationPolicy } from './rotation.js'
+import { logPaths, type ServiceManager } from './services/types.js'
+import type { InstallState } from './state.js'
+
+export type LogStream = 'stdout' | 'stderr' | 'journal'
+
+export interface LogLine {
+  stream: LogStream
+  /** From the journal, or parsed from a timestamp at the start of the line */
+  time?: Date
+  text: string
+}
+
+type LogSource =
+  | { kind: 'file'; stream: 'stdout' | 'stderr'; path: string }
+  | { kind: 'journal'; unit: string }
+
+interface LogFilter {
+  since?: Date
+  grep?: RegExp
+}
+
+const DEFAULT_LINES = 50
+/** Only the end of a larger file is read; older lines are what rotation is for. */
+const MAX_READ_BYTES = 16 * 1024 * 1024
+const FOLLOW_INTERVAL_MS = 500
+
+const LEADING_TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/
+
+/** The time a line was logged, if it starts with an ISO timestamp or is a JSON log record. */
+function parseLineTime(text: string): Date | undefined {
+  const match = text.match(LEADING_TIMESTAMP)
+  if (match) {
+    const time = new Date(match[1].replace(' ', 'T'))
+    return isNaN(time.getTime()) ? undefined : time
+  }
+  if (text.startsWith('{')) {
+    try {
+      const record = JSON.parse(text)
+      const value = record.time ?? record.timestamp
+      const time = typeof value === 'number' || typeof value === 'string' ? new Date(value) : undefined
+      return time && !isNaN(time.getTime()) ? time : undefined
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return undefined
+}
+
+function readEnd(path: string): string {
+  const { size } = statSync(path)
+  const start = Math.max(0, size - MAX_READ_BYTES)
+  const buffer = Buffer.alloc(size - start)
+  const fd = openSync(path, 'r')
+  try {
+    readSync(fd, buffer, 0, buffer.length, start)
+  } finally {
+    closeSync(fd)
+  }
+  const text = buffer.toString('utf-8')
+  // Drop the partial first line when starting mid-file
+  return start > 0 ? text.slice(text.indexOf('\n') + 1) : text
+}
+
+/**
+ * Lines without their own timestamp (stack traces, plain output) take the
+ * time of the line before them so filtering and merging keep them in place.
+ */
+function readFileLines(stream: 'stdout' | 'stderr', path: string): LogLine[] {
+  if (!existsSync(path)) return []
+  const lines: LogLine[] = []
+  let time: Date | undefined
+  for (const text of readEnd(path).split('\n')) {
+    if (!text) continue
+    time = parseLineTime(text) ?? time
+    lines.push({ stream, time, text })
+  }
+  return lines
+}
+
+function parseJournalEntry(json: string): LogLine | null {
+  try {
+    const entry = JSON.parse(json)
+    // Non-UTF-8 messages come back as byte arrays
+    const text = Array.isArray(entry.MESSAGE) ? Buffer.from(entry.MESSAGE).toString('utf-8') : String(entry.MESSAGE ?? '')
+    return { stream: 'journal', time: new Date(parseInt(entry.__REALTIME_TIMESTAMP, 10) / 1000), text }
+  } catch {
+    return null
+  }
+}
+
+function journalArgs(unit: string): string[] {
+  return ['--user', '--unit', unit, '--output', 'json', '--no-pager']
+}
+
+function readJournal(unit: string, filter: LogFilter): LogLine[] {
+  const args = journalArgs(unit)
+  if (filter.since) args.push('--since', `@${Math.floor(filter.since.getTime() / 1000)}`)
+  try {
+    return runCommand('journalctl', args, { maxBuffer: MAX_READ_BYTES, timeout: 30_000, quiet: true })
+      .split('\n')
+      .map(parseJournalEntry)
+      .filter((line): line is LogLine => line !== null)
+  } catch {
+    // No user journal (e.g. no session bus); the log files still work
+    return []
+  }
+}
+
+function matches(line: LogLine, filter: LogFilter): boolean {
+  if (filter.since && line.time && line.time < filter.since) return false
+  return !filter.grep || filter.grep.test(line.text)
+}
+
+/**
+ * Merges streams by time while keeping each stream's own order. Lines that
+ * come before any timestamp in their stream sort first.
+ */
+export function mergeByTime(streams: LogLine[][]): LogLine[] {
+  const merged: LogLine[] = []
+  const positions = streams.map(() => 0)
+  for (;;) {
+    let next = -1
+    for (let i = 0; i < streams.length; i++) {
+      const line = streams[i][positions[i]]
+      if (!line) continue
+      const best = next >= 0 ? streams[next][positions[next]] : undefined
+      if (!best || (line.time?.getTime() ?? -Infinity) < (best.time?.getTime() ?? -Infinity)) next = i
+    }
+    if (next < 0) return merged
+    merged.push(streams[next][positions[next]++])
+  }
+}
+
+function readLogs(sources: LogSource[], filter: LogFilter, count: number): LogLine[] {
+  const streams = sources.map(source => source.kind === 'file'
+    ? readFileLines(source.stream, source.path)
+    : readJournal(source.unit, filter))
+  const lines = mergeByTime(streams).filter(line => matches(line, filter))
+  return lines.slice(Math.max(0, lines.length - count))
+}
+
+function formatLogLine(line: LogLine, tagged: boolean): string {
+  const text = line.stream === 'journal' && line.time ? `${pc.dim(line.time.toISOString())} ${line.text}` : line.text
+  if (!tagged) return line.stream === 'stderr' ? pc.red(text) : text
+  const tag = { stdout: pc.dim('[stdout]'), stderr: pc.red('[stderr]'), journal: pc.cyan('[systemd]') }[line.stream]
+  return `${tag} ${text}`
+}
+
+/** Emits complete lines appended to the file, starting from its current end. */
+function tailFile(source: Extract<LogSource, { kind: 'file' }>, onLine: (line: LogLine) => void): () => void {
+  let offset = existsSync(source.path) ? statSync(source.path).size : 0
+  let partial = ''
+
+  const poll = () => {
+    if (!existsSync(source.path)) return
+    const { size } = statSync(source.path)
+    // Truncated or replaced by rotation: start over from the top
+    if (size < offset) {
+      offset = 0
+      partial = ''
+    }
+    if (size === offset) return
+    const buffer = Buffer.alloc(size - offset)
+    const fd = openSync(source.path, 'r')
+    try {
+      readSync(fd, buffer, 0, buffer.length, offset)
+    } finally {
+      closeSync(fd)
+    }
+    offset = size
+    const lines = (partial + buffer.toString('utf-8')).split('\n')
+    partial = lines.pop() ?? ''
+    for (const text of lines) {
+      if (text) onLine({ stream: source.stream, time: parseLineTime(text), text })
+    }
+  }
+
+  const timer = setInterval(poll, FOLLOW_INTERVAL_MS)
+  return () => clearInterval(timer)
+}
+
+function tailJournal(unit: string, onLine: (line: LogLine) => void): () => void {
+  const child = spawn('journalctl', [...journalArgs(unit), '--follow', '--lines', '0'], { stdio: ['ignore', 'pipe', 'ignore'] })
+  child.on('error', () => {})
+  createInterface({ input: child.stdout }).on('line', (json) => {
+    const line = parseJournalEntry(json)
+    if (line) onLine(line)
+  })
+  return () => child.kill()
+}
+
+/** Prints new lines as they arrive until Ctrl-C. */
+function followLogs(sources: LogSource[], filter: LogFilter, onLine: (line: LogLine) => void): Promise<void> {
+  const emit = (line: LogLine) => {
+    if (!filter.grep || filter.grep.test(line.text)) onLine(line)
+  }
+  const stops = sources.map(source => source.kind === 'file' ? tailFile(source, emit) : tailJournal(source.unit, emit))
+
+  return new Promise((resolve) => {
+    process.once('SIGINT', () => {
+      for (const stop of stops) stop()
+      resolve()
+    })
+  })
+}
+
+function selectSources(install: InstallState, service: ServiceManager, which: 'stdout' | 'stderr' | 'all'): LogSource[] {
+  const files = logPaths(install.installDir)
+  const sources: LogSource[] = []
+  if (which !== 'stderr') sources.push({ kind: 'file', stream: 'stdout', path: files.stdout })
+  if (which !== 'stdout') sources.push({ kind: 'file', stream: 'stderr', path: files.stderr })
+  // The unit's own messages (starts, stops, crashes) are only in the journal;
+  // they go with the default view too, as the first sign of a board that won't start
+  if (which !== 'stderr' && service.journalUnit && commandExists('journalctl')) {
+    sources.push({ kind: 'journal', unit: service.journalUnit })
+  }
+  return sources
+}
+
+function formatAge(ms: number): string {
+  const days = ms / 86_400_000
+  if (days >= 1 && Number.isInteger(days)) return `${days} day${days === 1 ? '' : 's'}`
+  const hours = ms / 3_600_000
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} hour${hours === 1 ? '' : 's'}`
+}
+
+export function describeRotation(policy: RotationPolicy): string {
+  return `at ${formatSize(policy.maxBytes)} or every ${formatAge(policy.maxAgeMs)}, keep ${policy.keep}`
+}
+
+async function runLogRotate(install: InstallState, argv: string[]): Promise<CommandResult> {
+  const { values } = parseFlags(argv, {
+    force: { type: 'boolean' },
+  })
+  const policy = install.logRotation ?? DEFAULT_ROTATION
+  const { rotated, removed } = await rotateLogs(install.installDir, policy, { force: values.force })
+
+  if (rotated.length === 0) {
+    console.log(pc.dim(`Nothing to rotate (rotating ${describeRotation(policy)}).`))
+  }
+  for (const log of rotated) {
+    console.log(pc.green(`✓ Rotated ${log.stream}.log (${formatSize(log.bytes)}) to ${log.archive}`))
+  }
+  for (const file of removed) {
+    console.log(pc.dim(`Deleted ${file}`))
+  }
+
+  return { ok: true, policy, rotated, removed }
+}
+
+export async function runLogs(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  if (argv[0] === 'rotate') return runLogRotate(install, argv.slice(1))
+
+  const { values } = parseFlags(argv, {
+    follow: { type: 'boolean', short: 'f' },
+    lines: { type: 'string', short: 'n' },
+    stderr: { type: 'boolean' },
+    all: { type: 'boolean' },
+    since: { type: 'string' },
+    grep: { type: 'string' },
+  })
+
+  if (values.stderr && values.all) {
+    throw new InstallerError('Pass either --stderr or --all, not both', ExitCode.Usage)
+  }
+  if (values.follow && isJsonMode()) {
+    throw new InstallerError('--follow cannot be combined with --json', ExitCode.Usage)
+  }
+
+  if (values.lines !== undefined && !/^\d+$/.test(values.lines)) {
+    throw new InstallerError(`Invalid line count: ${values.lines}`, ExitCode.Usage)
+  }
+  const count = values.lines === undefined ? DEFAULT_LINES : parseInt(values.lines, 10)
+
+  const filter: LogFilter = {}
+  if (values.since !== undefined) {
+    const ms = parseDuration(values.since)
+    if (ms === undefined) {
+      throw new InstallerError(`Invalid duration: ${values.since} (use e.g. 30s, 15m, 2h or 1d)`, ExitCode.Usage)
+    }
+    filter.since = new Date(Date.now() - ms)
+  }
+  if (values.grep !== undefined) {
+    try {
+      filter.grep = new RegExp(values.grep)
+    } catch (err) {
+      throw new InstallerError(`Invalid --grep pattern: ${(err as Error).message}`, ExitCode.Usage)
+    }
+  }
+
+  const which = values.all ? 'all' : values.stderr ? 'stderr' : 'stdout'
+  const sources = selectSources(install, service, which)
+  const tagged = sources.length > 1
+  const lines = readLogs(sources, filter, count)
+
+  if (lines.length === 0 && !values.follow) {
+    console.log(pc.yellow(filter.since || filter.grep ? 'No matching log lines.' : 'No logs found yet.'))
+  }
+  for (const line of lines) {
+    console.log(formatLogLine(line, tagged))
+  }
+
+  if (values.follow) {
+    await followLogs(sources, filter, line => console.log(formatLogLine(line, tagged)))
+  }
+
+  return {
+    ok: true,
+    lines: lines.map(line => ({ stream: line.stream, time: line.time?.toISOString() ?? null, text: line.text })),
+  }
+}
@@ -1,49 +1,139 @@
-import { execSync, spawn } from 'child_process'
-import { existsSync, readFileSync } from 'fs'
-import { homedir } from 'os'
-import { join } from 'path'
+import { basename, resolve } from 'path'
 import pc from 'picocolors'
+import { expandHome } from './answers.js'
+import { extractGlobalFlags, parseFlags, type GlobalFlags } from './args.js'
+import { testConnection } from './database.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { attachTranscript, runCommand, setVerbose, transcriptPath } from './exec.js'
+import { STATUS_EXIT_CODES, probeHealth, waitForHealthy, type HealthResult } from './health.js'
+import { describeInstance, validateInstanceName } from './instances.js'
+import { boardUrl, checkPublicUrl, isWildcardHost } from './network.js'
+import { enableJsonMode, failure, isJsonMode, printJson, type CommandResult } from './output.js'
+import { selectServiceManager, type ServiceManager, type ServiceStatus } from './services/index.js'
+import { listInstances, resolveInstall, type InstallState } from './state.js'
+import { checkPortConflict, findFreePort, findPortOwner, formatPortConflict, processGroup, type PortConflict } from './ports.js'
+import { runBackup, runBackups, runRestore } from './backups.js'
+import { formatUpdateReport, performUpdate, type UpdateStep } from './update.js'
+import { checkForUpdate, describePin, parsePin, type AvailableUpdate } from './versions.js'
+import { runUninstall } from './uninstall.js'
+import { runDoctor } from './doctor.js'
+import { runConfig } from './config.js'
+import { runLogs } from './logs.js'
+import { runToken } from './auth.js'
+import { describeBundle, nodeMismatch, readBundleManifest, runBundle } from './bundle.js'
+import { runExport, runImport } from './transfer.js'
 
-const INSTALL_DIR = join(homedir(), 'openclaw-board')
-const PLIST_PATH = join(homedir(), 'Library', 'LaunchAgents', 'com.openclaw.board.plist')
-const SERVICE_NAME = 'com.openclaw.board'
+/** Commands that act on an install; `instances` and `bundle` work without one */
+const INSTALL_COMMANDS = [
+  'status', 'start', 'stop', 'restart', 'logs', 'open', 'update', 'backup', 'backups', 'restore',
+  'export', 'import', 'config', 'doctor', 'token', 'uninstall',
+]
 
-function getPort(): number {
-  try {
-    const envPath = join(INSTALL_DIR, '.env')
-    const content = readFileSync(envPath, 'utf-8')
-    const match = content.match(/PORT=(\d+)/)
-    return match ? parseInt(match[1], 10) : 3000
-  } catch {
-    return 3000
+/** Commands that change the install; the commands they run go into its logs/installer.log */
+const TRANSCRIBED_COMMANDS = ['update', 'backup', 'restore', 'import', 'doctor']
+
+function describeHealth(health: HealthResult): string {
+  switch (health.state) {
+    case 'running': return pc.green('● Running')
+    case 'starting': return pc.yellow('◐ Starting')
+    case 'unhealthy': return pc.red(`● Unhealthy${health.detail ? ` (${health.detail})` : ''}`)
+    case 'foreign': return pc.red('✗ Port in use by another application')
+    case 'stopped': return pc.red('○ Stopped')
   }
 }
 
-function isInstalled(): boolean {
-  return existsSync(INSTALL_DIR) && existsSync(join(INSTALL_DIR, '.env'))
+function reportStartResult(health: HealthResult, verb: string, url: string): void {
+  switch (health.state) {
+    case 'running':
+      console.log(pc.green(`✓ Board ${verb}`))
+      console.log(`Open: ${pc.cyan(url)}`)
+      return
+    case 'unhealthy':
+      console.log(pc.red(`Board is up but unhealthy${health.detail ? ` (${health.detail})` : ''}.`))
+      console.log(`Check the logs: ${pc.cyan('npx openclaw-board-installer logs')}`)
+      return
+    case 'foreign':
+      console.log(pc.red(`Another application is answering on ${url}.`))
+      return
+    default:
+      console.log(pc.yellow('Board did not become ready in time.'))
+      console.log(`Check status: ${pc.cyan('npx openclaw-board-installer status')}`)
+  }
 }
 
-function hasLaunchAgent(): boolean {
-  return existsSync(PLIST_PATH)
+/**
+ * Finds whatever other than the board holds the port; starting anyway would
+ * leave launchd/systemd restarting a board that can't bind. A board that is
+ * starting, or hung with the service's own process on the port, is no conflict.
+ */
+async function findPortConflict(port: number, health: HealthResult, service: ServiceManager): Promise<PortConflict | null> {
+  if (health.state === 'running' || health.state === 'unhealthy' || health.state === 'starting') return null
+  const conflict = health.state === 'foreign'
+    ? { port, owner: findPortOwner(port), suggestion: await findFreePort(port + 1) }
+    : await checkPortConflict(port)
+  if (conflict?.owner && await ownedByService(conflict.owner.pid, service)) return null
+  return conflict
 }
 
-function isRunning(): boolean {
-  try {
-    const port = getPort()
-    execSync(`curl -s --connect-timeout 2 http://localhost:${port}/api/tasks > /dev/null`, { stdio: 'ignore' })
-    return true
-  } catch {
-    return false
+/** Whether the PID is the service's process or in its process group (npm start runs node as a child). */
+async function ownedByService(pid: number, service: ServiceManager): Promise<boolean> {
+  const { pid: servicePid } = await service.status().catch((): Partial<ServiceStatus> => ({}))
+  if (!servicePid) return false
+  if (pid === servicePid) return true
+  const group = processGroup(pid)
+  return group !== undefined && group === processGroup(servicePid)
+}
+
+function reportPortConflict(conflict: PortConflict): CommandResult {
+  console.log(pc.red(`${formatPortConflict(conflict)}; not starting.`))
+  if (conflict.suggestion) {
+    console.log(`Use another port: ${pc.cyan(`npx openclaw-board-installer config set PORT ${conflict.suggestion}`)}`)
   }
+  return failure(formatPortConflict(conflict), ExitCode.Failure, {
+    conflict: { port: conflict.port, owner: conflict.owner, suggestion: conflict.suggestion ?? null },
+  })
+}
+
+function healthResult(health: HealthResult, url: string, steps: UpdateStep[]): CommandResult {
+  return {
+    ok: health.state === 'running',
+    exitCode: STATUS_EXIT_CODES[health.state],
+    state: health.state,
+    health,
+    url,
+    steps,
+  }
+}
+
+interface DatabaseCheck {
+  configured: boolean
+  reachable: boolean | null
+  /** False when only the port could be checked (no psql). */
+  loginVerified?: boolean
+  error?: string
 }
 
-function getLaunchdStatus(): 'running' | 'stopped' | 'not-loaded' {
-  if (!hasLaunchAgent()) return 'not-loaded'
+async function checkDatabase(databaseUrl: string | undefined): Promise<DatabaseCheck> {
+  if (!databaseUrl) return { configured: false, reachable: null }
   try {
-    const output = execSync(`launchctl list | grep ${SERVICE_NAME}`, { encoding: 'utf-8' })
-    return output.includes(SERVICE_NAME) ? 'running' : 'stopped'
-  } catch {
-    return 'stopped'
+    return { configured: true, reachable: true, loginVerified: await testConnection(databaseUrl, 3000) }
+  } catch (err) {
+    return { configured: true, reachable: false, error: (err as Error).message }
+  }
+}
+
+function describeDatabase(database: DatabaseCheck): string {
+  if (!database.configured) return pc.dim('Not configured')
+  if (!database.reachable) return pc.red(`Unreachable${database.error ? ` (${database.error})` : ''}`)
+  return database.loginVerified ? pc.green('Connected') : pc.green('Reachable') + pc.dim(' (install psql to verify the login)')
+}
+
+function describeAutoStart(name: string, status: ServiceStatus): string {
+  switch (status.state) {
+    case 'running': return pc.green(`Loaded (${name})`)
+    case 'stopped': return pc.yellow(`Loaded (${name}, stopped)`)
+    case 'failed': return pc.red(`Loaded (${name}, failed)`)
+    case 'not-installed': return pc.dim('Not configured')
   }
 }
 
@@ -53,16 +143,48 @@ ${pc.cyan(pc.bold('OpenClaw Board'))} — Task management for humans and AI
 
 ${pc.bold('Usage:')}
   openclaw-board [command]
+  openclaw-board install --non-interactive [--instance <name>] [--install-dir <dir>] [--port <port>]
+                         [--auto-start | --no-auto-start] [--existing update|fresh|cancel]
+                         [--postgres install|require] [--answers <file>]
+                         [--host <address>] [--public-url <url>] [--proxy caddy|nginx]
+                         [--admin-token | --no-admin-token] [--import-from <file>]
+                         [--channel stable|beta|main | --version <tag> | --ref <branch|sha>]
+                         [--from-bundle <file> | --source <git-url|mirror>] [--verbose]
 
 ${pc.bold('Commands:')}
   ${pc.cyan('install')}    Run the installer (default if no command)
   ${pc.cyan('start')}      Start the board
   ${pc.cyan('stop')}       Stop the board
   ${pc.cyan('restart')}    Restart the board
-  ${pc.cyan('status')}     Show current status
-  ${pc.cyan('logs')}       Show recent logs (macOS only)
+  ${pc.cyan('status')}     Show current status [--check-updates]
+  ${pc.cyan('logs')}       Show recent logs [-f | --follow] [-n <lines>] [--stderr | --all]
+               [--since <duration>] [--grep <pattern>]
+               ${pc.cyan('logs rotate')} [--force] rotates and compresses the log files
   ${pc.cyan('open')}       Open the board in your browser
-  ${pc.cyan('update')}     Pull latest and restart
+  ${pc.cyan('update')}     Back up, pull latest and restart; rolls back on failure
+               [--skip-backup] [--channel stable|beta|main | --version <tag> | --ref <ref>]
+               [--from-bundle <file>] updates offline from a bundle
+  ${pc.cyan('backup')}     Back up the database [--keep <n>]
+  ${pc.cyan('backups')}    List backups (${pc.cyan('backups list')}) or prune them (${pc.cyan('backups prune --keep <n>')})
+  ${pc.cyan('restore')}    Restore a backup (latest if none given) [<file>] [--yes]
+  ${pc.cyan('export')}     Write the board's data to a portable JSON archive [-o <file>]
+  ${pc.cyan('import')}     Load an export into this board <file> [--mode merge|replace] [--yes]
+               [--skip-backup] [--force]
+  ${pc.cyan('config')}     Show or change settings in .env: ${pc.cyan('config list')}, ${pc.cyan('config get <KEY>')},
+               ${pc.cyan('config set <KEY> <VALUE>')} [--restart | --no-restart]
+  ${pc.cyan('instances')}  List every instance on this machine and whether it is running
+  ${pc.cyan('bundle')}     Pack the board and its dependencies for an offline install [-o <file>]
+               [--source <git-url|mirror>] [--channel stable|beta|main | --version <tag> | --ref <ref>]
+  ${pc.cyan('token')}      Replace the admin token in .env and the ocb config, then restart (${pc.cyan('token rotate')})
+  ${pc.cyan('doctor')}     Diagnose the install and suggest fixes [--fix]
+  ${pc.cyan('uninstall')}  Remove the board, its service and the ocb CLI
+               [--dry-run] [--keep-data | --drop-db] [--yes]
+
+${pc.bold('Options:')}
+  ${pc.cyan('--instance <name>')}    Manage the named instance instead of the default one
+  ${pc.cyan('--install-dir <dir>')}  Manage the install in <dir> instead of the recorded one
+  ${pc.cyan('--json')}               Print a JSON document instead of text (see README for the schema)
+  ${pc.cyan('--verbose')}            Stream the output of git, npm, psql and other commands to stderr
 
 ${pc.bold('Examples:')}
   npx openclaw-board-installer          # Install
@@ -71,186 +193,318 @@ ${pc.bold('Examples:')}
 `)
 }
 
-export async function runManage(command: string): Promise<void> {
+async function startBoard(install: InstallState, url: string, service: ServiceManager): Promise<CommandResult> {
+  const { port, host, adminToken: token } = install
+  const current = await probeHealth(port, { service, host, token })
+  if (current.state === 'running' || current.state === 'starting') {
+    console.log(pc.yellow(current.state === 'running' ? 'Board is already running.' : 'Board is already starting.'))
+    console.log(`Open: ${pc.cyan(url)}`)
+    return healthResult(current, url, [{ name: 'Start board', status: 'skipped', detail: `already ${current.state}` }])
+  }
+
+  const conflict = await findPortConflict(port, current, service)
+  if (conflict) return reportPortConflict(conflict)
+
+  console.log('Starting OpenClaw Board...')
+  
+  await service.start()
+
+  const health = await waitForHealthy(port, { service, host, token })
+  reportStartResult(health, 'started', url)
+  return healthResult(health, url, [{ name: 'Start board', status: 'ok' }])
+}
+
+export async function runManage(command: string, argv: string[] = []): Promise<void> {
   if (command === 'help' || command === '--help' || command === '-h') {
     printHelp()
     return
   }
 
-  if (!isInstalled() && command !== 'help') {
-    console.log(pc.red('OpenClaw Board is not installed.'))
+  const { globals, rest } = extractGlobalFlags(argv)
+  if (globals.json) enableJsonMode()
+  setVerbose(Boolean(globals.verbose))
+  const instanceError = globals.instance && validateInstanceName(globals.instance)
+  if (instanceError) throw new InstallerError(`--instance: ${instanceError}`, ExitCode.Usage)
+
+  let result: CommandResult
+  if (command === 'instances') {
+    result = await runInstances(rest)
+  } else if (command === 'bundle') {
+    result = await runBundle(rest)
+  } else if (!INSTALL_COMMANDS.includes(command)) {
+    result = unknownCommand(command)
+  } else {
+    const install = resolveInstall(globals.installDir && expandHome(globals.installDir), globals.instance)
+    if (install && TRANSCRIBED_COMMANDS.includes(command)) attachTranscript(install.installDir)
+    result = install ? await dispatch(command, install, rest) : notInstalled(globals)
+  }
+
+  if (isJsonMode()) printJson(command, result)
+  if (result.exitCode) process.exit(result.exitCode)
+}
+
+function unknownCommand(command: string): CommandResult {
+  console.log(pc.red(`Unknown command: ${command}`))
+  printHelp()
+  return failure(`Unknown command: ${command}`, ExitCode.Usage)
+}
+
+function notInstalled({ installDir, instance }: GlobalFlags): CommandResult {
+  const what = instance ? `Instance ${instance}` : 'OpenClaw Board'
+  console.log(pc.red(`${what} is not installed.`))
+  if (installDir) {
+    console.log(`No installation found in ${pc.cyan(installDir)}.`)
+  }
+  console.log(`Run ${pc.cyan(`npx openclaw-board-installer${instance ? ` install --instance ${instance}` : ''}`)} to install.`)
+  return failure(`${what} is not installed`)
+}
+
+/** Lists every instance on this machine with whether it is running. */
+async function runInstances(argv: string[]): Promise<CommandResult> {
+  const { positionals } = parseFlags(argv, {})
+  const [sub = 'list'] = positionals
+  if (sub !== 'list') throw new InstallerError(`Unknown instances command: ${sub} (expected list)`, ExitCode.Usage)
+
+  const rows: { install: InstallState; health: HealthResult; service: ServiceManager }[] = []
+  for (const install of listInstances()) {
+    const service = selectServiceManager(install, { backend: install.service })
+    const health = await probeHealth(install.port, { service, host: install.host, token: install.adminToken })
+    rows.push({ install, health, service })
+  }
+
+  if (rows.length === 0) {
+    console.log(pc.yellow('No instances installed.'))
     console.log(`Run ${pc.cyan('npx openclaw-board-installer')} to install.`)
-    process.exit(1)
+  } else {
+    const width = Math.max(...rows.map(({ install }) => describeInstance(install.instance).length))
+    console.log(pc.bold('\nOpenClaw Board Instances\n'))
+    for (const { install, health } of rows) {
+      console.log(`  ${pc.cyan(describeInstance(install.instance).padEnd(width))}  ${describeHealth(health)}`)
+      console.log(pc.dim(`  ${' '.repeat(width)}  ${boardUrl(install)}  ${install.installDir}`))
+    }
+    console.log('')
   }
 
-  const port = getPort()
-  const url = `http://localhost:${port}`
+  return {
+    ok: true,
+    instances: rows.map(({ install, health, service }) => ({
+      instance: describeInstance(install.instance),
+      installDir: install.installDir,
+      port: install.port,
+      url: boardUrl(install),
+      state: health.state,
+      service: service.name,
+    })),
+  }
+}
+
+async function dispatch(command: string, install: InstallState, rest: string[]): Promise<CommandResult> {
+  const { installDir, port, host, adminToken: token } = install
+  const url = boardUrl(install)
+  const service = selectServiceManager(install, { backend: install.service })
 
   switch (command) {
     case 'status': {
+      const { values } = parseFlags(rest, { 'check-updates': { type: 'boolean' } })
+      // Asking the remote can take seconds, or hang until the timeout offline, so only on request
+      let updates: AvailableUpdate | null = null
+      try {
+        if (values['check-updates']) updates = checkForUpdate(installDir, install.pin)
+      } catch {
+        // Offline or not a git checkout
+      }
+      const health = await probeHealth(port, { service, host, token })
+      const serviceStatus = await service.status()
+      const database = await checkDatabase(install.databaseUrl)
+      // The health probe goes to the board directly; this checks the way people reach it
+      const publicUrl = install.publicUrl
+        ? { url: install.publicUrl, ...await checkPublicUrl(install.publicUrl, { caFile: install.proxy?.caFile }) }
+        : null
+
       console.log(pc.bold('\nOpenClaw Board Status\n'))
-      console.log(`  Directory:    ${pc.cyan(INSTALL_DIR)}`)
+      if (install.instance) {
+        console.log(`  Instance:     ${pc.cyan(install.instance)}`)
+      }
+      console.log(`  Directory:    ${pc.cyan(installDir)}`)
       console.log(`  Port:         ${pc.cyan(String(port))}`)
+      if (host) {
+        console.log(`  Listening:    ${pc.cyan(isWildcardHost(host) ? `all interfaces (${host})` : host)}`)
+      }
       console.log(`  URL:          ${pc.cyan(url)}`)
-      
-      const running = isRunning()
-      console.log(`  Status:       ${running ? pc.green('● Running') : pc.red('○ Stopped')}`)
-      
-      if (process.platform === 'darwin') {
-        const launchdStatus = getLaunchdStatus()
-        const statusText = launchdStatus === 'running' ? pc.green('Loaded') 
-          : launchdStatus === 'stopped' ? pc.yellow('Loaded (stopped)')
-          : pc.dim('Not configured')
-        console.log(`  Auto-start:   ${statusText}`)
+      if (publicUrl) {
+        const via = install.proxy ? ` via ${install.proxy.server}` : ''
+        console.log(`  Reachable:    ${publicUrl.reachable
+          ? pc.green(`Yes${via} (HTTP ${publicUrl.statusCode})`)
+          : pc.red(`No${via} (${publicUrl.error})`)}`)
       }
-      console.log('')
-      break
-    }
-
-    case 'start': {
-      if (isRunning()) {
-        console.log(pc.yellow('Board is already running.'))
-        console.log(`Open: ${pc.cyan(url)}`)
-        return
+      console.log(`  API access:   ${token ? pc.green('Admin token required') : pc.dim('Open (no admin token)')}`)
+      if (install.version || install.commit) {
+        const commit = install.commit ? pc.dim(` (${install.commit.slice(0, 7)})`) : ''
+        console.log(`  Version:      ${pc.cyan(install.version ?? 'unknown')}${commit}`)
       }
-
-      console.log('Starting OpenClaw Board...')
-      
-      if (hasLaunchAgent() && process.platform === 'darwin') {
-        execSync(`launchctl start ${SERVICE_NAME}`)
+      console.log(`  Tracking:     ${pc.cyan(describePin(install.pin))}`)
+      if (updates) {
+        const text = updates.updateAvailable
+          ? pc.yellow(`${updates.latest} available (current: ${updates.current})`)
+          : pc.green(`Up to date (${updates.current})`)
+        console.log(`  Updates:      ${text}`)
       } else {
-        // Start directly in background
-        const child = spawn('npm', ['start'], {
-          cwd: INSTALL_DIR,
-          detached: true,
-          stdio: 'ignore',
-        })
-        child.unref()
+        console.log(`  Updates:      ${pc.dim(values['check-updates'] ? 'Unable to check' : 'Not checked (--check-updates)')}`)
       }
+      console.log(`  Status:       ${describeHealth(health)}`)
+      console.log(`  Database:     ${describeDatabase(database)}`)
+      console.log(`  Auto-start:   ${service.autoStart ? describeAutoStart(service.name, serviceStatus) : pc.dim('Not configured')}`)
+      console.log('')
 
-      // Wait for startup
-      await new Promise(resolve => setTimeout(resolve, 3000))
-      
-      if (isRunning()) {
-        console.log(pc.green('✓ Board started'))
-        console.log(`Open: ${pc.cyan(url)}`)
-      } else {
-        console.log(pc.yellow('Board may still be starting...'))
-        console.log(`Check status: ${pc.cyan('npx openclaw-board-installer status')}`)
+      return {
+        ok: health.state === 'running',
+        exitCode: STATUS_EXIT_CODES[health.state],
+        instance: describeInstance(install.instance),
+        installDir,
+        port,
+        host: host ?? null,
+        url,
+        publicUrl,
+        proxy: install.proxy ? { server: install.proxy.server, config: install.proxy.config } : null,
+        adminToken: Boolean(token),
+        state: health.state,
+        health,
+        service: {
+          backend: service.name,
+          autoStart: service.autoStart,
+          state: serviceStatus.state,
+          pid: serviceStatus.pid ?? null,
+        },
+        version: install.version ?? null,
+        commit: install.commit ?? null,
+        tracking: describePin(install.pin),
+        updates: updates && { current: updates.current, latest: updates.latest ?? null, available: updates.updateAvailable },
+        database,
       }
-      break
     }
 
+    case 'start':
+      return startBoard(install, url, service)
+
     case 'stop': {
-      if (!isRunning()) {
+      // A tracked process may still be booting even if the API isn't up yet
+      const { state } = await service.status()
+      const health = await probeHealth(port, { host, token })
+      if (health.state !== 'running' && health.state !== 'unhealthy' && state !== 'running') {
         console.log(pc.yellow('Board is not running.'))
-        return
+        return { ok: true, state: 'stopped', steps: [{ name: 'Stop board', status: 'skipped', detail: 'not running' }] }
       }
 
       console.log('Stopping OpenClaw Board...')
       
-      if (hasLaunchAgent() && process.platform === 'darwin') {
-        execSync(`launchctl stop ${SERVICE_NAME}`)
-      } else {
-        // Kill the process
-        try {
-          execSync(`pkill -f "openclaw-board.*server"`, { stdio: 'ignore' })
-        } catch {
-          // May not find process
-        }
-      }
+      await service.stop()
 
       console.log(pc.green('✓ Board stopped'))
-      break
+      return { ok: true, state: 'stopped', steps: [{ name: 'Stop board', status: 'ok' }] }
     }
 
     case 'restart': {
+      const conflict = await findPortConflict(port, await probeHealth(port, { service, host, token }), service)
+      if (conflict) return reportPortConflict(conflict)
+
       console.log('Restarting OpenClaw Board...')
       
-      if (hasLaunchAgent() && process.platform === 'darwin') {
-        execSync(`launchctl kickstart -k gui/$(id -u)/${SERVICE_NAME}`, { stdio: 'inherit' })
-      } else {
-        // Stop then start
-        try {
-          execSync(`pkill -f "openclaw-board.*server"`, { stdio: 'ignore' })
-        } catch {}
-        
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        
-        const child = spawn('npm', ['start'], {
-          cwd: INSTALL_DIR,
-          detached: true,
-          stdio: 'ignore',
-        })
-        child.unref()
-      }
+      await service.restart()
 
-      await new Promise(resolve => setTimeout(resolve, 3000))
-      
-      if (isRunning()) {
-        console.log(pc.green('✓ Board restarted'))
-        console.log(`Open: ${pc.cyan(url)}`)
-      } else {
-        console.log(pc.yellow('Board may still be starting...'))
-      }
-      break
+      const health = await waitForHealthy(port, { service, host, token })
+      reportStartResult(health, 'restarted', url)
+      return healthResult(health, url, [{ name: 'Restart board', status: 'ok' }])
     }
 
-    case 'logs': {
-      if (process.platform !== 'darwin') {
-        console.log(pc.yellow('Log viewing is only supported on macOS.'))
-        console.log(`Check logs manually in: ${pc.cyan(join(INSTALL_DIR, 'logs'))}`)
-        return
-      }
-
-      const logFile = join(INSTALL_DIR, 'logs', 'stdout.log')
-      if (!existsSync(logFile)) {
-        console.log(pc.yellow('No logs found yet.'))
-        return
-      }
-
-      console.log(pc.bold('Recent logs:\n'))
-      execSync(`tail -50 "${logFile}"`, { stdio: 'inherit' })
-      break
-    }
+    case 'logs':
+      return runLogs(install, service, rest)
 
     case 'open': {
-      if (!isRunning()) {
+      if ((await probeHealth(port, { service, host, token })).state !== 'running') {
         console.log(pc.yellow('Board is not running. Starting...'))
-        await runManage('start')
+        const started = await startBoard(install, url, service)
+        if (!started.ok) return started
       }
       
       console.log(`Opening ${pc.cyan(url)}...`)
       if (process.platform === 'darwin') {
-        execSync(`open "${url}"`)
+        runCommand('open', [url])
       } else if (process.platform === 'linux') {
-        execSync(`xdg-open "${url}"`)
+        runCommand('xdg-open', [url])
       } else {
         console.log(`Open in browser: ${pc.cyan(url)}`)
       }
-      break
+      return { ok: true, url }
     }
 
     case 'update': {
-      console.log('Updating OpenClaw Board...')
-      
-      execSync('git pull origin main', { cwd: INSTALL_DIR, stdio: 'inherit' })
-      execSync('npm install', { cwd: INSTALL_DIR, stdio: 'inherit' })
-      execSync('npx prisma generate', { cwd: INSTALL_DIR, stdio: 'inherit' })
-      execSync('npx prisma db push', { cwd: INSTALL_DIR, stdio: 'inherit' })
+      const { values } = parseFlags(rest, {
+        'skip-backup': { type: 'boolean' },
+        'from-bundle': { type: 'string' },
+        channel: { type: 'string' },
+        version: { type: 'string' },
+        ref: { type: 'string' },
+      })
+      const pin = parsePin(values, '--channel/--version/--ref')
+      const bundle = values['from-bundle'] && resolve(expandHome(values['from-bundle']))
+      if (bundle && pin) {
+        throw new InstallerError('--from-bundle updates to the version in the bundle; drop --channel/--version/--ref', ExitCode.Usage)
+      }
+      if (bundle) {
+        const manifest = readBundleManifest(bundle)
+        console.log(`Updating OpenClaw Board from ${basename(bundle)} (${describeBundle(manifest)})...`)
+        const mismatch = nodeMismatch(manifest)
+        if (mismatch) console.log(pc.yellow(mismatch))
+      } else {
+        console.log(`Updating OpenClaw Board (${describePin(pin ?? install.pin)})...`)
+      }
       
-      console.log(pc.green('✓ Updated'))
+      const report = await performUpdate({
+        install,
+        service,
+        pin,
+        skipBackup: values['skip-backup'],
+        bundle,
+        onProgress: (message) => console.log(pc.dim(message)),
+      })
       
-      if (isRunning()) {
-        console.log('Restarting...')
-        await runManage('restart')
+      console.log('')
+      for (const line of formatUpdateReport(report)) {
+        console.log(line)
       }
-      break
+      if (!report.ok) console.log(pc.dim(`Full output of every command: ${transcriptPath(install.installDir)}`))
+      
+      return { ...report, exitCode: report.ok ? ExitCode.Ok : ExitCode.Failure }
     }
 
+    case 'backup':
+      return runBackup(install, rest)
+
+    case 'backups':
+      return runBackups(install, rest)
+
+    case 'restore':
+      return runRestore(install, service, rest)
+
+    case 'export':
+      return runExport(install, rest)
+
+    case 'import':
+      return runImport(install, service, rest)
+
+    case 'config':
+      return runConfig(install, service, rest)
+
+    case 'doctor':
+      return runDoctor(install, service, rest)
+
+    case 'token':
+      return runToken(install, service, rest)
+
+    case 'uninstall':
+      return runUninstall(install, service, rest)
+
     default:
-      console.log(pc.red(`Unknown command: ${command}`))
-      printHelp()
-      process.exit(1)
+      return unknownCommand(command)
   }
 }
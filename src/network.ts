@@ -0,0 +1,234 @@
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import https from 'https'
+import http from 'http'
+import { isIP } from 'net'
+import { hostname, networkInterfaces } from 'os'
+import { join } from 'path'
+import { ExitCode, InstallerError } from './errors.js'
+import { commandExists, runCommand } from './exec.js'
+import { instanceSlug } from './instances.js'
+
+export const PROXY_SERVERS = ['caddy', 'nginx'] as const
+export type ProxyServer = typeof PROXY_SERVERS[number]
+
+/** Where the board is reachable from and how; absent fields mean localhost only */
+export interface BoardAddress {
+  port: number
+  /** Address the board binds to (HOST in .env) */
+  host?: string
+  /** URL people open (PUBLIC_URL in .env) */
+  publicUrl?: string
+}
+
+/** A generated reverse proxy config and the certificate it serves */
+export interface ProxyRecord {
+  server: ProxyServer
+  config: string
+  cert: string
+  key: string
+  /** Root of the local CA that signed `cert`; absent for user-supplied certs */
+  caFile?: string
+}
+
+const WILDCARD_HOSTS = ['0.0.0.0', '::']
+
+export function isWildcardHost(host: string | undefined): boolean {
+  return !host || WILDCARD_HOSTS.includes(host)
+}
+
+/** Where the board itself answers, for health probes: its bind address unless that is a wildcard. */
+export function probeHost(host: string | undefined): string {
+  return isWildcardHost(host) ? 'localhost' : host!
+}
+
+function urlHost(host: string): string {
+  return isIP(host) === 6 ? `[${host}]` : host
+}
+
+/** The direct URL of the board, bypassing any proxy. */
+export function directUrl(address: BoardAddress): string {
+  return `http://${urlHost(probeHost(address.host))}:${address.port}`
+}
+
+/** The URL to show and open: the public one if set, else the direct one. */
+export function boardUrl(address: BoardAddress): string {
+  return address.publicUrl ?? directUrl(address)
+}
+
+/** Non-loopback IPv4 addresses of this machine. */
+export function lanAddresses(): string[] {
+  return Object.values(networkInterfaces())
+    .flat()
+    .filter(info => info && info.family === 'IPv4' && !info.internal)
+    .map(info => info!.address)
+}
+
+export function validateHost(value: string | undefined): string | undefined {
+  if (!value) return 'Host is required'
+  if (value === 'localhost' || isIP(value)) return undefined
+  return 'Must be an IP address, 0.0.0.0 (all interfaces) or localhost'
+}
+
+export function validatePublicUrl(value: string | undefined): string | undefined {
+  try {
+    const url = new URL(value ?? '')
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Must be an http:// or https:// URL'
+    if (url.pathname !== '/' || url.search || url.hash) return 'Must not include a path; the board is served from the root'
+    return undefined
+  } catch {
+    return 'Not a valid URL'
+  }
+}
+
+/** A URL as written to PUBLIC_URL: no trailing slash. */
+export function normalizePublicUrl(value: string): string {
+  return new URL(value).origin
+}
+
+export function defaultLanUrl(host: string | undefined, port: number): string {
+  const address = isWildcardHost(host) ? lanAddresses()[0] ?? hostname() : host!
+  return `http://${urlHost(address)}:${port}`
+}
+
+export function defaultProxyUrl(): string {
+  return `https://${hostname()}`
+}
+
+function proxyDir(installDir: string): string {
+  return join(installDir, 'proxy')
+}
+
+/**
+ * Issues a certificate for the public host name from mkcert's local CA,
+ * creating the CA on first use. The CA root is copied next to the
+ * certificate so it can be imported on the other machines.
+ */
+export function issueLocalCertificate(installDir: string, publicUrl: string): Pick<ProxyRecord, 'cert' | 'key' | 'caFile'> {
+  if (!commandExists('mkcert')) {
+    throw new InstallerError(
+      'A local CA needs mkcert (https://github.com/FiloSottile/mkcert). Install it or pass --tls-cert and --tls-key.',
+      ExitCode.Prerequisites,
+    )
+  }
+  const dir = join(proxyDir(installDir), 'certs')
+  mkdirSync(dir, { recursive: true })
+  const { hostname: name } = new URL(publicUrl)
+  const cert = join(dir, `${name}.pem`)
+  const key = join(dir, `${name}-key.pem`)
+  runCommand('mkcert', ['-cert-file', cert, '-key-file', key, name])
+
+  const caRoot = runCommand('mkcert', ['-CAROOT'])
+  const caFile = join(dir, 'rootCA.pem')
+  copyFileSync(join(caRoot, 'rootCA.pem'), caFile)
+  return { cert, key, caFile }
+}
+
+function upstream(address: BoardAddress): string {
+  return `${urlHost(isWildcardHost(address.host) ? '127.0.0.1' : address.host!)}:${address.port}`
+}
+
+function renderCaddyfile(address: BoardAddress, url: URL, proxy: Omit<ProxyRecord, 'config'>): string {
+  return `# Generated by openclaw-board-installer
+${url.origin} {
+	tls ${proxy.cert} ${proxy.key}
+	reverse_proxy ${upstream(address)}
+}
+`
+}
+
+function renderNginxConf(address: BoardAddress, url: URL, proxy: Omit<ProxyRecord, 'config'>, instance?: string): string {
+  // Map variables are global to nginx's http block, so each instance needs its own
+  const connection = `$${instanceSlug(instance).replace(/-/g, '_')}_connection`
+  const port = url.port || '443'
+  // Only redirect plain HTTP when serving the standard HTTPS port
+  const redirect = port === '443'
+    ? `
+server {
+    listen 80;
+    server_name ${url.hostname};
+    return 301 https://$host$request_uri;
+}
+`
+    : ''
+  return `# Generated by openclaw-board-installer; include it in nginx's http block
+map $http_upgrade ${connection} {
+    default upgrade;
+    ''      close;
+}
+${redirect}
+server {
+    listen ${port} ssl;
+    server_name ${url.hostname};
+
+    ssl_certificate     ${proxy.cert};
+    ssl_certificate_key ${proxy.key};
+
+    location / {
+        proxy_pass http://${upstream(address)};
+        proxy_http_version 1.1;
+        proxy_set_header Host $host;
+        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+        proxy_set_header X-Forwarded-Proto $scheme;
+        proxy_set_header Upgrade $http_upgrade;
+        proxy_set_header Connection ${connection};
+    }
+}
+`
+}
+
+/** Writes the proxy config under <installDir>/proxy/ and returns the complete record. */
+export function writeProxyConfig(
+  installDir: string,
+  address: BoardAddress & { publicUrl: string },
+  proxy: Omit<ProxyRecord, 'config'>,
+  instance?: string,
+): ProxyRecord {
+  const url = new URL(address.publicUrl)
+  if (url.protocol !== 'https:') {
+    throw new InstallerError(`The reverse proxy serves HTTPS; the public URL must start with https:// (got ${address.publicUrl})`, ExitCode.InvalidConfig)
+  }
+  mkdirSync(proxyDir(installDir), { recursive: true })
+  const config = join(proxyDir(installDir), proxy.server === 'caddy' ? 'Caddyfile' : `${instanceSlug(instance)}.conf`)
+  writeFileSync(config, proxy.server === 'caddy'
+    ? renderCaddyfile(address, url, proxy)
+    : renderNginxConf(address, url, proxy, instance))
+  return { ...proxy, config }
+}
+
+/** What to run to put the generated config into service. */
+export function proxyInstructions(proxy: ProxyRecord, instance?: string): string[] {
+  const steps = proxy.server === 'caddy'
+    ? [
+      `Run it: caddy run --config ${proxy.config}`,
+      `or add "import ${proxy.config}" to /etc/caddy/Caddyfile and run: sudo systemctl reload caddy`,
+    ]
+    : [
+      `Enable it: sudo ln -s ${proxy.config} /etc/nginx/conf.d/${instanceSlug(instance)}.conf`,
+      'then run: sudo nginx -t && sudo nginx -s reload',
+    ]
+  if (proxy.caFile) {
+    steps.push(`Trust the local CA on each machine that opens the board: import ${proxy.caFile} (or run "mkcert -install" here)`)
+  }
+  return steps
+}
+
+/** Whether the public URL answers at all, through the proxy if there is one. */
+export function checkPublicUrl(
+  publicUrl: string,
+  options: { caFile?: string; timeoutMs?: number } = {},
+): Promise<{ reachable: boolean; statusCode?: number; error?: string }> {
+  const url = new URL(publicUrl)
+  const ca = options.caFile && existsSync(options.caFile) ? readFileSync(options.caFile) : undefined
+  const get = url.protocol === 'https:' ? https.get : http.get
+  return new Promise((resolve) => {
+    const req = get(url, { timeout: options.timeoutMs ?? 3000, ca }, (res) => {
+      res.resume()
+      resolve({ reachable: true, statusCode: res.statusCode })
+    })
+    req.on('timeout', () => {
+      req.destroy()
+      resolve({ reachable: false, error: 'request timed out' })
+    })
+    req.on('error', err => resolve({ reachable: false, error: err.message }))
+  })
+}
@@ -0,0 +1,55 @@
+import { ExitCode } from './errors.js'
+
+/** Bumped only for breaking changes to the --json documents. */
+export const JSON_SCHEMA_VERSION = 1
+
+export interface JsonEnvelope {
+  schemaVersion: number
+  command: string
+  ok: boolean
+  [key: string]: unknown
+}
+
+/** What a command hands back for --json; `exitCode` is used for the process, not printed. */
+export type CommandResult = { ok: boolean; exitCode?: number } & Record<string, unknown>
+
+/** A failed result in the same shape the CLI uses for thrown errors. */
+export function failure(message: string, exitCode: number = ExitCode.Failure, fields: Record<string, unknown> = {}): CommandResult {
+  return { ok: false, exitCode, error: { message, exitCode }, ...fields }
+}
+
+let jsonMode = false
+let writeStdout: typeof process.stdout.write | null = null
+
+/**
+ * Switches to --json mode: everything written to stdout from here on
+ * (console.log, prompts, spinners) goes to stderr instead, so the one
+ * JSON document printed by `printJson` is all that reaches stdout.
+ */
+export function enableJsonMode(): void {
+  if (jsonMode) return
+  jsonMode = true
+  writeStdout = process.stdout.write.bind(process.stdout)
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode
+}
+
+/** Prompts are only shown with a terminal and never in --json mode. */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY) && !jsonMode
+}
+
+export function printJson(command: string, result: CommandResult): void {
+  const { exitCode: _, ...fields } = result
+  const document: JsonEnvelope = { schemaVersion: JSON_SCHEMA_VERSION, command, ...fields }
+  const write = writeStdout ?? process.stdout.write.bind(process.stdout)
+  write(JSON.stringify(document, null, 2) + '\n')
+}
+
+/** True when argv asks for JSON, checked before any parsing so errors can be reported as JSON too. */
+export function wantsJson(argv: string[]): boolean {
+  return argv.includes('--json')
+}
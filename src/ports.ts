@@ -0,0 +1,99 @@
+import net from 'net'
+import { commandExists, runCommand } from './exec.js'
+
+export interface PortOwner {
+  pid: number
+  command?: string
+}
+
+function canBind(port: number, host?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer()
+    server.once('error', () => resolve(false))
+    server.once('listening', () => server.close(() => resolve(true)))
+    server.listen(port, host)
+  })
+}
+
+/**
+ * Test-binds the port on all interfaces and on loopback; resolves false if
+ * something holds it. Both are needed because macOS lets a wildcard bind
+ * succeed next to a server that only listens on 127.0.0.1.
+ */
+export async function isPortFree(port: number): Promise<boolean> {
+  return await canBind(port) && await canBind(port, '127.0.0.1')
+}
+
+/** The first free port at or after `start`. */
+export async function findFreePort(start: number, attempts = 100): Promise<number | undefined> {
+  for (let port = start; port < Math.min(start + attempts, 65536); port++) {
+    if (await isPortFree(port)) return port
+  }
+  return undefined
+}
+
+function ownerFromLsof(port: number): PortOwner | null {
+  // -F prints one field per line: p<pid>, c<command>
+  const output = runCommand('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-Fpc'], { timeout: 10_000 })
+  const pid = output.match(/^p(\d+)$/m)
+  const command = output.match(/^c(.+)$/m)
+  return pid ? { pid: parseInt(pid[1], 10), command: command?.[1] } : null
+}
+
+function ownerFromSs(port: number): PortOwner | null {
+  const output = runCommand('ss', ['-ltnpH', `sport = :${port}`], { timeout: 10_000 })
+  const match = output.match(/users:\(\("([^"]+)",pid=(\d+)/)
+  return match ? { pid: parseInt(match[2], 10), command: match[1] } : null
+}
+
+/**
+ * The process listening on the port, where the OS will say. Processes of
+ * other users are usually hidden unless running as root.
+ */
+export function findPortOwner(port: number): PortOwner | null {
+  const lookups = [
+    commandExists('lsof') && ownerFromLsof,
+    process.platform === 'linux' && commandExists('ss') && ownerFromSs,
+  ]
+  for (const lookup of lookups) {
+    if (!lookup) continue
+    try {
+      const owner = lookup(port)
+      if (owner) return owner
+    } catch {
+      // lsof exits non-zero when nothing matches
+    }
+  }
+  return null
+}
+
+/** The process group a PID belongs to, where ps will say. */
+export function processGroup(pid: number): number | undefined {
+  try {
+    const pgid = parseInt(runCommand('ps', ['-o', 'pgid=', '-p', String(pid)], { timeout: 10_000 }), 10)
+    return Number.isNaN(pgid) ? undefined : pgid
+  } catch {
+    return undefined
+  }
+}
+
+export function describeOwner(owner: PortOwner | null): string {
+  if (!owner) return 'another process'
+  return owner.command ? `${owner.command} (PID ${owner.pid})` : `PID ${owner.pid}`
+}
+
+export interface PortConflict {
+  port: number
+  owner: PortOwner | null
+  suggestion?: number
+}
+
+/** Null when the port is free; otherwise who holds it and the next free port. */
+export async function checkPortConflict(port: number): Promise<PortConflict | null> {
+  if (await isPortFree(port)) return null
+  return { port, owner: findPortOwner(port), suggestion: await findFreePort(port + 1) }
+}
+
+export function formatPortConflict(conflict: PortConflict): string {
+  return `Port ${conflict.port} is in use by ${describeOwner(conflict.owner)}`
+}
@@ -0,0 +1,207 @@
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { ExitCode, InstallerError } from './errors.js'
+import { commandExists, formatCommand, runCommand, runCommandAsync } from './exec.js'
+
+export type PackageManager = 'apt' | 'dnf' | 'pacman' | 'zypper'
+
+export interface LinuxDistro {
+  id: string
+  name: string
+  packageManager?: PackageManager
+}
+
+/** Commands run as root, in order, to get a running PostgreSQL server. */
+export interface PostgresInstallPlan {
+  packageManager: PackageManager
+  commands: string[][]
+}
+
+// Matched against ID and ID_LIKE, so derivatives (Mint, Rocky, Manjaro...) resolve too
+const DISTRO_FAMILIES: Record<PackageManager, string[]> = {
+  apt: ['debian', 'ubuntu'],
+  dnf: ['fedora', 'rhel', 'centos'],
+  pacman: ['arch'],
+  zypper: ['suse', 'opensuse', 'sles'],
+}
+
+// Where distro packages put the server's Unix socket
+const SOCKET_DIRS = ['/var/run/postgresql', '/run/postgresql', '/tmp']
+
+function parseOsRelease(text: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([A-Z_]+)=(.*)$/)
+    if (match) fields[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2')
+  }
+  return fields
+}
+
+export function detectLinuxDistro(osReleasePath = '/etc/os-release'): LinuxDistro | null {
+  if (!existsSync(osReleasePath)) return null
+
+  const fields = parseOsRelease(readFileSync(osReleasePath, 'utf-8'))
+  const id = fields.ID ?? 'linux'
+  const family = [id, ...(fields.ID_LIKE ?? '').split(/\s+/)].map(s => s.toLowerCase())
+  const packageManager = (Object.keys(DISTRO_FAMILIES) as PackageManager[])
+    .find(pm => DISTRO_FAMILIES[pm].some(name => family.some(f => f === name || f.startsWith(`${name}-`))))
+
+  return { id, name: fields.PRETTY_NAME ?? fields.NAME ?? id, packageManager }
+}
+
+// Run from root, so the same command works with or without a sudo prefix
+function asPostgres(command: string[]): string[] {
+  return ['su', 'postgres', '-c', formatCommand(command)]
+}
+
+export function postgresInstallPlan(packageManager: PackageManager): PostgresInstallPlan {
+  const enable = ['systemctl', 'enable', '--now', 'postgresql']
+
+  switch (packageManager) {
+    case 'apt':
+      // The Debian packages initialise a cluster and start it on install
+      return {
+        packageManager,
+        commands: [
+          ['apt-get', 'update'],
+          ['apt-get', 'install', '-y', 'postgresql', 'postgresql-contrib'],
+          enable,
+        ],
+      }
+    case 'dnf':
+      return {
+        packageManager,
+        commands: [
+          ['dnf', 'install', '-y', 'postgresql-server', 'postgresql-contrib'],
+          ['postgresql-setup', '--initdb'],
+          enable,
+        ],
+      }
+    case 'pacman':
+      return {
+        packageManager,
+        commands: [
+          ['pacman', '-S', '--noconfirm', '--needed', 'postgresql'],
+          asPostgres(['initdb', '-D', '/var/lib/postgres/data']),
+          enable,
+        ],
+      }
+    case 'zypper':
+      return {
+        packageManager,
+        commands: [
+          ['zypper', '--non-interactive', 'install', 'postgresql-server', 'postgresql-contrib'],
+          enable,
+        ],
+      }
+  }
+}
+
+/** Commands that give the OS user a Postgres role allowed to create databases. */
+export function createRoleCommands(user: string): string[][] {
+  return [asPostgres(['createuser', '--createdb', user])]
+}
+
+function currentUser(): string {
+  return process.env.USER || 'openclaw'
+}
+
+function isRoot(): boolean {
+  return process.getuid?.() === 0
+}
+
+/**
+ * Root needs no sudo. Otherwise sudo must exist and either not need a
+ * password or have a terminal to ask for one on.
+ */
+export function canSudo(): boolean {
+  if (isRoot()) return true
+  if (!commandExists('sudo')) return false
+  try {
+    runCommand('sudo', ['-n', 'true'], { timeout: 10_000 })
+    return true
+  } catch {
+    return Boolean(process.stdin.isTTY)
+  }
+}
+
+function asRoot(command: string[]): string[] {
+  return isRoot() ? command : ['sudo', ...command]
+}
+
+function manualSteps(commands: string[][]): string {
+  return commands.map(command => `  ${formatCommand(asRoot(command))}`).join('\n')
+}
+
+/**
+ * Wraps each command run as root, so the caller can give up the terminal
+ * while it runs: sudo may ask for a password and apt/dnf show their progress.
+ */
+export type AroundCommand = (command: string, run: () => Promise<void>) => Promise<void>
+
+async function runAsRoot(commands: string[][], around: AroundCommand = (_command, run) => run()): Promise<void> {
+  for (const command of commands) {
+    const [cmd, ...args] = asRoot(command)
+    await around(formatCommand([cmd, ...args]), async () => {
+      await runCommandAsync(cmd, args, { interactive: true })
+    })
+  }
+}
+
+/** True when the local server accepts connections as the current OS user. */
+export function hasUserRole(): boolean {
+  try {
+    runCommand('psql', ['-d', 'postgres', '-tAc', 'SELECT 1'], { timeout: 10_000 })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Creates a Postgres role for the current OS user. The distro packages only
+ * create the `postgres` superuser, but setupDatabase connects as $USER.
+ */
+export async function ensureUserRole(around?: AroundCommand): Promise<void> {
+  if (hasUserRole()) return
+
+  const user = currentUser()
+  const commands = createRoleCommands(user)
+  if (!canSudo()) {
+    throw new InstallerError(
+      `PostgreSQL has no role for "${user}" and sudo is not available. Run these commands, then re-run the installer:\n${manualSteps(commands)}`,
+      ExitCode.Prerequisites,
+    )
+  }
+  await runAsRoot(commands, around)
+}
+
+/**
+ * Installs PostgreSQL with the distro's package manager and enables the
+ * service. Without sudo, fails with the exact commands to run by hand.
+ */
+export async function installPostgresLinux(around?: AroundCommand): Promise<void> {
+  const distro = detectLinuxDistro()
+  if (!distro?.packageManager) {
+    throw new InstallerError(
+      `Automatic PostgreSQL installation is not supported on ${distro?.name ?? 'this Linux distribution'}. Please install PostgreSQL manually.`,
+      ExitCode.Prerequisites,
+    )
+  }
+
+  const plan = postgresInstallPlan(distro.packageManager)
+  if (!canSudo()) {
+    throw new InstallerError(
+      `Installing PostgreSQL needs root. Run these commands, then re-run the installer:\n${manualSteps([...plan.commands, ...createRoleCommands(currentUser())])}`,
+      ExitCode.Prerequisites,
+    )
+  }
+
+  await runAsRoot(plan.commands, around)
+  await ensureUserRole(around)
+}
+
+/** The server's Unix socket directory, if a local server is listening on one. */
+export function localSocketDir(port = 5432): string | undefined {
+  return SOCKET_DIRS.find(dir => existsSync(join(dir, `.s.PGSQL.${port}`)))
+}
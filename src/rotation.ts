@@ -0,0 +1,119 @@
+import { copyFileSync, createReadStream, createWriteStream, existsSync, readdirSync, rmSync, statSync, truncateSync } from 'fs'
+import { join } from 'path'
+import { pipeline } from 'stream/promises'
+import { createGzip } from 'zlib'
+import { logPaths } from './services/types.js'
+
+// Only Node.js built-ins and services/types.js: the scheduled job runs a copy
+// of this module from the install, outside the installer package
+
+export interface RotationPolicy {
+  /** Rotate once a log reaches this size */
+  maxBytes: number
+  /** Rotate once this long has passed since the last rotation */
+  maxAgeMs: number
+  /** Compressed archives kept per log; older ones are deleted */
+  keep: number
+}
+
+export const DEFAULT_ROTATION: RotationPolicy = {
+  maxBytes: 10 * 1024 * 1024,
+  maxAgeMs: 7 * 86_400_000,
+  keep: 5,
+}
+
+export interface RotatedLog {
+  stream: 'stdout' | 'stderr'
+  archive: string
+  bytes: number
+}
+
+/** Archives for one log, newest first; the timestamp in the name sorts by age. */
+function listArchives(dir: string, stream: string): string[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter(name => name.startsWith(`${stream}.log.`) && name.endsWith('.gz'))
+    .sort()
+    .reverse()
+    .map(name => join(dir, name))
+}
+
+/** When the log was last rotated, or when it was created if it never was. */
+function lastRotation(path: string, archives: string[]): number | undefined {
+  if (archives.length > 0) return statSync(archives[0]).mtimeMs
+  // Some filesystems don't record a birth time and report 0
+  return statSync(path).birthtimeMs || undefined
+}
+
+function archiveStamp(now: Date): string {
+  return now.toISOString().replace(/[-:.]/g, '')
+}
+
+/**
+ * A name for the next archive that no other has taken: the stamp goes down to
+ * the millisecond, and a run within the same one gets a suffix that sorts after it.
+ */
+function archiveBase(dir: string, stream: string, now: Date): string {
+  const stamp = archiveStamp(now)
+  for (let n = 0; ; n++) {
+    const base = join(dir, `${stream}.log.${stamp}${n === 0 ? '' : `_${n}`}`)
+    if (!existsSync(base) && !existsSync(`${base}.gz`)) return base
+  }
+}
+
+async function rotateFile(
+  stream: 'stdout' | 'stderr',
+  path: string,
+  dir: string,
+  policy: RotationPolicy,
+  options: { force?: boolean; now: Date },
+): Promise<RotatedLog | null> {
+  if (!existsSync(path)) return null
+  const { size } = statSync(path)
+  if (size === 0) return null
+
+  const since = lastRotation(path, listArchives(dir, stream))
+  const due = options.force
+    || size >= policy.maxBytes
+    || (since !== undefined && options.now.getTime() - since >= policy.maxAgeMs)
+  if (!due) return null
+
+  // Copy and truncate instead of renaming: launchd, systemd and the process
+  // backend keep the file open and would go on writing to the renamed one.
+  // Lines written between the copy and the truncate are lost.
+  const copy = archiveBase(dir, stream, options.now)
+  copyFileSync(path, copy)
+  truncateSync(path, 0)
+
+  const archive = `${copy}.gz`
+  await pipeline(createReadStream(copy), createGzip(), createWriteStream(archive, { mode: 0o600 }))
+  rmSync(copy)
+  return { stream, archive, bytes: size }
+}
+
+/**
+ * Rotates stdout.log and stderr.log when they are over the size or age limit
+ * (or always with `force`), then deletes archives beyond the retention count.
+ */
+export async function rotateLogs(
+  installDir: string,
+  policy: RotationPolicy,
+  options: { force?: boolean } = {},
+): Promise<{ rotated: RotatedLog[]; removed: string[] }> {
+  const files = logPaths(installDir)
+  const now = new Date()
+  const rotated: RotatedLog[] = []
+  const removed: string[] = []
+
+  for (const stream of ['stdout', 'stderr'] as const) {
+    const result = await rotateFile(stream, files[stream], files.dir, policy, { force: options.force, now })
+    if (result) rotated.push(result)
+
+    for (const old of listArchives(files.dir, stream).slice(policy.keep)) {
+      rmSync(old, { force: true })
+      removed.push(old)
+    }
+  }
+
+  return { rotated, removed }
+}
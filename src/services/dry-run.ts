@@ -0,0 +1,40 @@
+import pc from 'picocolors'
+import type { ServiceManager } from './types.js'
+
+export type RecordedAction = 'install' | 'uninstall' | 'start' | 'stop' | 'restart'
+
+export interface DryRunServiceManager extends ServiceManager {
+  readonly target: ServiceManager
+  readonly recorded: RecordedAction[]
+}
+
+/**
+ * Wraps another backend: read-only queries go to the real backend, every
+ * action is recorded (and printed) instead of performed.
+ */
+export function createDryRunService(target: ServiceManager, options: { quiet?: boolean } = {}): DryRunServiceManager {
+  const recorded: RecordedAction[] = []
+
+  const record = (action: RecordedAction) => async () => {
+    recorded.push(action)
+    if (!options.quiet) {
+      console.log(pc.dim(`[dry-run] would ${action} the ${target.name} service`))
+    }
+  }
+
+  return {
+    name: 'dry-run',
+    autoStart: target.autoStart,
+    definitionPath: target.definitionPath,
+    journalUnit: target.journalUnit,
+    target,
+    recorded,
+    isInstalled: () => target.isInstalled(),
+    install: record('install'),
+    uninstall: record('uninstall'),
+    start: record('start'),
+    stop: record('stop'),
+    restart: record('restart'),
+    status: () => target.status(),
+  }
+}
@@ -0,0 +1,68 @@
+import { runCommand } from '../exec.js'
+import { createDryRunService } from './dry-run.js'
+import { createLaunchdService } from './launchd.js'
+import { createProcessService } from './process.js'
+import { createSystemdService } from './systemd.js'
+import { type ServiceBackend, type ServiceContext, type ServiceManager } from './types.js'
+
+export type { ServiceBackend, ServiceContext, ServiceManager, ServiceState, ServiceStatus } from './types.js'
+export { createDryRunService, type DryRunServiceManager } from './dry-run.js'
+
+const BACKENDS: ServiceBackend[] = ['launchd', 'systemd', 'process', 'dry-run']
+
+export function createServiceManager(backend: Exclude<ServiceBackend, 'dry-run'>, ctx: ServiceContext): ServiceManager {
+  switch (backend) {
+    case 'launchd': return createLaunchdService(ctx)
+    case 'systemd': return createSystemdService(ctx)
+    case 'process': return createProcessService(ctx)
+  }
+}
+
+function hasSystemctl(): boolean {
+  try {
+    runCommand('systemctl', ['--version'])
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** The backend that provides auto-start on this platform, if any. */
+export function platformServiceManager(ctx: ServiceContext): ServiceManager | null {
+  if (process.platform === 'darwin') return createLaunchdService(ctx)
+  if (process.platform === 'linux' && hasSystemctl()) return createSystemdService(ctx)
+  return null
+}
+
+function backendOverride(): ServiceBackend | undefined {
+  const value = process.env.OPENCLAW_BOARD_SERVICE
+  if (!value) return undefined
+  if (!BACKENDS.includes(value as ServiceBackend)) {
+    throw new Error(`OPENCLAW_BOARD_SERVICE must be one of ${BACKENDS.join(', ')}`)
+  }
+  return value as ServiceBackend
+}
+
+/**
+ * Picks the backend that manages an existing install: the one recorded at
+ * install time, else the platform service if its unit/plist is present,
+ * otherwise a PID-file supervised process. OPENCLAW_BOARD_SERVICE forces a
+ * backend; `dryRun` wraps the choice in a recorder.
+ */
+export function selectServiceManager(
+  ctx: ServiceContext,
+  options: { backend?: Exclude<ServiceBackend, 'dry-run'>; dryRun?: boolean } = {},
+): ServiceManager {
+  const override = backendOverride()
+  const backend = override === 'dry-run' ? options.backend : override ?? options.backend
+  let manager: ServiceManager
+
+  if (backend) {
+    manager = createServiceManager(backend, ctx)
+  } else {
+    const platform = platformServiceManager(ctx)
+    manager = platform?.isInstalled() ? platform : createProcessService(ctx)
+  }
+
+  return options.dryRun || override === 'dry-run' ? createDryRunService(manager) : manager
+}
@@ -0,0 +1,185 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import { runCommand } from '../exec.js'
+import { launchdLabel } from '../instances.js'
+import {
+  ROTATE_INTERVAL_SECONDS,
+  logPaths,
+  type ServiceContext,
+  type ServiceManager,
+  type ServiceStatus,
+} from './types.js'
+import { installRotateJob, removeRotateJob } from './rotate-job.js'
+
+const AGENTS_DIR = join(homedir(), 'Library', 'LaunchAgents')
+
+/** The board's and the log rotation job's labels and plists for one instance. */
+export function launchdJobs(instance?: string): { label: string; plist: string; rotateLabel: string; rotatePlist: string } {
+  const label = launchdLabel(instance)
+  const rotateLabel = `${label}.logrotate`
+  return {
+    label,
+    plist: join(AGENTS_DIR, `${label}.plist`),
+    rotateLabel,
+    rotatePlist: join(AGENTS_DIR, `${rotateLabel}.plist`),
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }
+
+/** Escapes text for a plist <string> element. */
+function xml(value: string | number): string {
+  return String(value).replace(/[&<>"']/g, char => XML_ENTITIES[char])
+}
+
+/** The plist's text with the escapes above undone, for checks that look for raw values. */
+export function unescapePlist(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, entity => Object.keys(XML_ENTITIES).find(char => XML_ENTITIES[char] === entity)!)
+}
+
+export function renderPlist(label: string, npmPath: string, installDir: string, port: number, host?: string): string {
+  const logs = logPaths(installDir)
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>Label</key>
+    <string>${xml(label)}</string>
+    <key>ProgramArguments</key>
+    <array>
+        <string>${xml(npmPath)}</string>
+        <string>start</string>
+    </array>
+    <key>WorkingDirectory</key>
+    <string>${xml(installDir)}</string>
+    <key>EnvironmentVariables</key>
+    <dict>
+        <key>PATH</key>
+        <string>/usr/local/bin:/usr/bin:/bin:/opt/homebrew/bin</string>
+        <key>PORT</key>
+        <string>${xml(port)}</string>${host ? `
+        <key>HOST</key>
+        <string>${xml(host)}</string>` : ''}
+    </dict>
+    <key>RunAtLoad</key>
+    <true/>
+    <key>KeepAlive</key>
+    <true/>
+    <key>StandardOutPath</key>
+    <string>${xml(logs.stdout)}</string>
+    <key>StandardErrorPath</key>
+    <string>${xml(logs.stderr)}</string>
+</dict>
+</plist>`
+}
+
+/** A job that runs `logs rotate` every hour; launchd itself never rotates StandardOutPath. */
+export function renderRotatePlist(label: string, command: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>Label</key>
+    <string>${xml(label)}</string>
+    <key>ProgramArguments</key>
+    <array>
+${command.map(arg => `        <string>${xml(arg)}</string>`).join('\n')}
+    </array>
+    <key>EnvironmentVariables</key>
+    <dict>
+        <key>PATH</key>
+        <string>/usr/local/bin:/usr/bin:/bin:/opt/homebrew/bin</string>
+    </dict>
+    <key>StartInterval</key>
+    <integer>${ROTATE_INTERVAL_SECONDS}</integer>
+    <key>StandardOutPath</key>
+    <string>/dev/null</string>
+    <key>StandardErrorPath</key>
+    <string>/dev/null</string>
+</dict>
+</plist>`
+}
+
+export function createLaunchdService(ctx: ServiceContext): ServiceManager {
+  const jobs = launchdJobs(ctx.instance)
+  const isLoaded = () => {
+    try {
+      runCommand('launchctl', ['list', jobs.label])
+      return true
+    } catch {
+      return false
+    }
+  }
+  const unload = (path: string) => {
+    try {
+      runCommand('launchctl', ['unload', path])
+    } catch {
+      // Ignore if not loaded
+    }
+  }
+
+  return {
+    name: 'launchd',
+    autoStart: true,
+    definitionPath: jobs.plist,
+
+    isInstalled: () => existsSync(jobs.plist),
+
+    async install() {
+      const npmPath = runCommand('which', ['npm'])
+
+      mkdirSync(AGENTS_DIR, { recursive: true })
+      mkdirSync(logPaths(ctx.installDir).dir, { recursive: true })
+      writeFileSync(jobs.plist, renderPlist(jobs.label, npmPath, ctx.installDir, ctx.port, ctx.host))
+      writeFileSync(jobs.rotatePlist, renderRotatePlist(jobs.rotateLabel, installRotateJob(ctx)))
+
+      for (const path of [jobs.plist, jobs.rotatePlist]) {
+        unload(path)
+        runCommand('launchctl', ['load', path])
+      }
+    },
+
+    async uninstall() {
+      for (const path of [jobs.plist, jobs.rotatePlist]) {
+        unload(path)
+        rmSync(path, { force: true })
+      }
+      removeRotateJob(ctx.installDir)
+    },
+
+    async start() {
+      // stop unloads the job; loading it again starts the board through RunAtLoad
+      if (isLoaded()) runCommand('launchctl', ['start', jobs.label])
+      else runCommand('launchctl', ['load', jobs.plist])
+    },
+
+    // `launchctl stop` alone is undone at once by KeepAlive, so the job is
+    // unloaded until the next start (or login)
+    async stop() {
+      unload(jobs.plist)
+    },
+
+    async restart() {
+      if (isLoaded()) runCommand('launchctl', ['kickstart', '-k', `gui/${process.getuid?.()}/${jobs.label}`])
+      else runCommand('launchctl', ['load', jobs.plist])
+    },
+
+    async status(): Promise<ServiceStatus> {
+      if (!existsSync(jobs.plist)) return { state: 'not-installed' }
+
+      let output: string
+      try {
+        output = runCommand('launchctl', ['list', jobs.label])
+      } catch {
+        return { state: 'stopped' }
+      }
+
+      const pid = output.match(/"PID"\s*=\s*(\d+);/)
+      if (pid) return { state: 'running', pid: parseInt(pid[1], 10) }
+
+      const lastExit = output.match(/"LastExitStatus"\s*=\s*(\d+);/)
+      return { state: lastExit && lastExit[1] !== '0' ? 'failed' : 'stopped' }
+    },
+  }
+}
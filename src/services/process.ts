@@ -0,0 +1,146 @@
+import { spawn } from 'child_process'
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { logPaths, type ServiceContext, type ServiceManager, type ServiceStatus } from './types.js'
+
+const DEFAULT_STOP_TIMEOUT_MS = 10_000
+
+interface RunFile {
+  pid: number
+  pgid: number
+  startedAt: string
+}
+
+export function pidFilePath(installDir: string): string {
+  return join(installDir, 'run', 'board.pid')
+}
+
+/** Signals a whole process group; returns false if the group no longer exists. */
+function signalGroup(pgid: number, signal: NodeJS.Signals | 0): boolean {
+  try {
+    process.kill(-pgid, signal)
+    return true
+  } catch (err) {
+    // EPERM means the group exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+async function waitForExit(pgid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (!signalGroup(pgid, 0)) return true
+    await new Promise(resolve => setTimeout(resolve, 200))
+  }
+  return !signalGroup(pgid, 0)
+}
+
+function readRunFile(path: string): RunFile | null {
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as Partial<RunFile>
+    if (typeof data.pid !== 'number' || typeof data.pgid !== 'number') return null
+    return data as RunFile
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Runs `npm start` as a detached process group and tracks it through a PID
+ * file under the install directory. Used when no launchd/systemd service is
+ * installed; it does not survive a reboot.
+ */
+export function createProcessService(
+  ctx: ServiceContext,
+  options: { stopTimeoutMs?: number } = {},
+): ServiceManager {
+  const pidFile = pidFilePath(ctx.installDir)
+  const stopTimeoutMs = options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS
+
+  // Returns the tracked process, removing the PID file if it is stale
+  const current = (): RunFile | null => {
+    if (!existsSync(pidFile)) return null
+    const run = readRunFile(pidFile)
+    if (run && signalGroup(run.pgid, 0)) return run
+    rmSync(pidFile, { force: true })
+    return null
+  }
+
+  const manager: ServiceManager = {
+    name: 'process',
+    autoStart: false,
+
+    isInstalled: () => existsSync(ctx.installDir),
+
+    async install() {
+      // Nothing to register; the process is spawned on start
+    },
+
+    async uninstall() {
+      await manager.stop()
+    },
+
+    async start() {
+      const running = current()
+      if (running) {
+        throw new Error(`Board process is already running (PID ${running.pid})`)
+      }
+
+      const logs = logPaths(ctx.installDir)
+      mkdirSync(logs.dir, { recursive: true })
+      const out = openSync(logs.stdout, 'a')
+      const err = openSync(logs.stderr, 'a')
+
+      try {
+        // detached makes the child a process group leader, so pgid === pid
+        const child = spawn('npm', ['start'], {
+          cwd: ctx.installDir,
+          env: { ...process.env, PORT: String(ctx.port), ...ctx.host && { HOST: ctx.host } },
+          detached: true,
+          stdio: ['ignore', out, err],
+        })
+        // Without an 'error' listener a failed spawn (npm not on PATH) crashes the installer
+        await new Promise<void>((resolve, reject) => {
+          child.once('spawn', resolve)
+          child.once('error', (error) => reject(new Error(`Failed to spawn npm start: ${error.message}`)))
+        })
+        child.unref()
+
+        if (!child.pid) {
+          throw new Error('Failed to spawn npm start')
+        }
+
+        const run: RunFile = { pid: child.pid, pgid: child.pid, startedAt: new Date().toISOString() }
+        mkdirSync(dirname(pidFile), { recursive: true })
+        writeFileSync(pidFile, JSON.stringify(run, null, 2) + '\n')
+      } finally {
+        closeSync(out)
+        closeSync(err)
+      }
+    },
+
+    async stop() {
+      const run = current()
+      if (!run) return
+
+      signalGroup(run.pgid, 'SIGTERM')
+      if (!await waitForExit(run.pgid, stopTimeoutMs)) {
+        signalGroup(run.pgid, 'SIGKILL')
+        await waitForExit(run.pgid, 2000)
+      }
+      rmSync(pidFile, { force: true })
+    },
+
+    async restart() {
+      await manager.stop()
+      await manager.start()
+    },
+
+    async status(): Promise<ServiceStatus> {
+      const run = current()
+      return run ? { state: 'running', pid: run.pid } : { state: 'stopped' }
+    },
+  }
+
+  return manager
+}
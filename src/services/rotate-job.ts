@@ -0,0 +1,50 @@
+import { copyFileSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { dirname, extname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { DEFAULT_ROTATION } from '../rotation.js'
+import type { ServiceContext } from './types.js'
+
+/** The job's entry point and every module it imports, relative to src/ (or dist/). */
+const JOB_MODULES = ['logrotate', 'rotation', join('services', 'types')]
+
+const jobDir = (installDir: string) => join(installDir, 'bin', 'logrotate')
+
+/** The copied entry point the scheduled job runs; gone if bin/ was deleted. */
+export function rotateJobEntry(installDir: string): string {
+  return join(jobDir(installDir), `logrotate${extname(fileURLToPath(import.meta.url))}`)
+}
+
+/**
+ * Copies the rotation job into the install's bin/ and returns the command that
+ * runs it. The copy outlives the npx cache this installer may be running from,
+ * and the job needs neither the registry nor npx on PATH. Loader flags such as
+ * tsx's are kept for runs from source.
+ */
+export function installRotateJob(ctx: Pick<ServiceContext, 'installDir' | 'logRotation'>): string[] {
+  const here = fileURLToPath(import.meta.url)
+  const root = join(dirname(here), '..')
+  const dir = jobDir(ctx.installDir)
+
+  rmSync(dir, { recursive: true, force: true })
+  for (const module of JOB_MODULES) {
+    const file = `${module}${extname(here)}`
+    mkdirSync(dirname(join(dir, file)), { recursive: true })
+    copyFileSync(join(root, file), join(dir, file))
+  }
+  // The board's own package.json may not make .js files ES modules
+  writeFileSync(join(dir, 'package.json'), '{ "type": "module" }\n')
+
+  const policy = ctx.logRotation ?? DEFAULT_ROTATION
+  return [
+    process.execPath, ...process.execArgv, rotateJobEntry(ctx.installDir),
+    '--install-dir', ctx.installDir,
+    '--max-bytes', String(policy.maxBytes),
+    '--max-age-ms', String(policy.maxAgeMs),
+    '--keep', String(policy.keep),
+  ]
+}
+
+/** Removes the copied job; the service definitions that ran it are gone by then. */
+export function removeRotateJob(installDir: string): void {
+  rmSync(jobDir(installDir), { recursive: true, force: true })
+}
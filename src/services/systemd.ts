@@ -0,0 +1,176 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { dirname, join } from 'path'
+import { runCommand } from '../exec.js'
+import { instanceSlug } from '../instances.js'
+import {
+  ROTATE_INTERVAL_SECONDS,
+  logPaths,
+  type ServiceContext,
+  type ServiceManager,
+  type ServiceStatus,
+} from './types.js'
+import { installRotateJob, removeRotateJob } from './rotate-job.js'
+
+const UNIT_DIR = join(homedir(), '.config', 'systemd', 'user')
+const unitPath = (name: string) => join(UNIT_DIR, name)
+
+/** The board's unit and the log rotation units for one instance. */
+export function systemdUnits(instance?: string): { unit: string; rotateService: string; rotateTimer: string } {
+  const slug = instanceSlug(instance)
+  return { unit: `${slug}.service`, rotateService: `${slug}-logrotate.service`, rotateTimer: `${slug}-logrotate.timer` }
+}
+
+export function renderUnit(npmPath: string, installDir: string, port: number, host?: string): string {
+  const logs = logPaths(installDir)
+  // Mirrors the LaunchAgent plist: same env, log files and keep-alive behaviour.
+  // A user unit can't order itself after the system's postgresql.service, so
+  // a board that starts before the database exits and is restarted until it
+  // connects, with no start limit to give up at.
+  return `[Unit]
+Description=OpenClaw Board
+StartLimitIntervalSec=0
+
+[Service]
+Type=simple
+WorkingDirectory=${pathArg(installDir)}
+ExecStart=${quoteArg(npmPath)} start
+Environment=${quoteEnv('PATH', `${dirname(npmPath)}:/usr/local/bin:/usr/bin:/bin`)}
+Environment=PORT=${port}${host ? `
+Environment=${quoteEnv('HOST', host)}` : ''}
+Restart=always
+RestartSec=5
+StandardOutput=append:${pathArg(logs.stdout)}
+StandardError=append:${pathArg(logs.stderr)}
+
+[Install]
+WantedBy=default.target
+`
+}
+
+/** Quotes an ExecStart argument when systemd would otherwise split or expand it. */
+function quoteArg(arg: string): string {
+  if (/^[\w@+=:,./-]+$/.test(arg)) return arg
+  return `"${arg.replace(/[\\"]/g, '\\$&').replace(/\$/g, '$$$$').replace(/%/g, '%%')}"`
+}
+
+/** Quotes an Environment= assignment; unlike ExecStart, it expands no $ variables. */
+function quoteEnv(name: string, value: string): string {
+  const assignment = `${name}=${value}`
+  if (/^[\w@+=:,./-]+$/.test(assignment)) return assignment
+  return `"${assignment.replace(/[\\"]/g, '\\$&').replace(/%/g, '%%')}"`
+}
+
+/**
+ * Escapes specifiers in a path setting such as WorkingDirectory=. These take
+ * the rest of the line as the path, spaces included, and reject quotes.
+ */
+function pathArg(path: string): string {
+  return path.replace(/%/g, '%%')
+}
+
+function renderRotateService(command: string[], npmPath: string): string {
+  return `[Unit]
+Description=Rotate OpenClaw Board logs
+
+[Service]
+Type=oneshot
+ExecStart=${command.map(quoteArg).join(' ')}
+Environment=${quoteEnv('PATH', `${dirname(npmPath)}:/usr/local/bin:/usr/bin:/bin`)}
+`
+}
+
+function renderRotateTimer(): string {
+  return `[Unit]
+Description=Rotate OpenClaw Board logs periodically
+
+[Timer]
+OnBootSec=15min
+OnUnitActiveSec=${ROTATE_INTERVAL_SECONDS}s
+Persistent=true
+
+[Install]
+WantedBy=timers.target
+`
+}
+
+function systemctl(...args: string[]): string {
+  return runCommand('systemctl', ['--user', ...args])
+}
+
+function succeeds(fn: () => unknown): boolean {
+  try {
+    fn()
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function createSystemdService(ctx: ServiceContext): ServiceManager {
+  const { unit, rotateService, rotateTimer } = systemdUnits(ctx.instance)
+  const definitionPath = unitPath(unit)
+
+  return {
+    name: 'systemd',
+    autoStart: true,
+    definitionPath,
+    journalUnit: unit,
+
+    isInstalled: () => existsSync(definitionPath),
+
+    async install() {
+      const npmPath = runCommand('which', ['npm'])
+
+      mkdirSync(UNIT_DIR, { recursive: true })
+      mkdirSync(logPaths(ctx.installDir).dir, { recursive: true })
+      writeFileSync(definitionPath, renderUnit(npmPath, ctx.installDir, ctx.port, ctx.host))
+      writeFileSync(unitPath(rotateService), renderRotateService(installRotateJob(ctx), npmPath))
+      writeFileSync(unitPath(rotateTimer), renderRotateTimer())
+
+      systemctl('daemon-reload')
+      systemctl('enable', '--now', unit)
+      systemctl('enable', '--now', rotateTimer)
+
+      // Without lingering, user services only run while the user is logged in
+      if (!succeeds(() => runCommand('loginctl', ['enable-linger']))) {
+        ctx.onWarning?.(
+          'Could not enable lingering; the board will start at login rather than boot. '
+          + `Run "sudo loginctl enable-linger ${process.env.USER ?? '$USER'}" to start it at boot.`,
+        )
+      }
+    },
+
+    async uninstall() {
+      succeeds(() => systemctl('disable', '--now', rotateTimer))
+      succeeds(() => systemctl('disable', '--now', unit))
+      for (const name of [unit, rotateService, rotateTimer]) {
+        rmSync(unitPath(name), { force: true })
+      }
+      succeeds(() => systemctl('daemon-reload'))
+      removeRotateJob(ctx.installDir)
+    },
+
+    async start() {
+      systemctl('start', unit)
+    },
+
+    async stop() {
+      systemctl('stop', unit)
+    },
+
+    async restart() {
+      systemctl('restart', unit)
+    },
+
+    async status(): Promise<ServiceStatus> {
+      if (!existsSync(definitionPath)) return { state: 'not-installed' }
+      if (succeeds(() => systemctl('is-active', '--quiet', unit))) {
+        const pid = parseInt(systemctl('show', '--property=MainPID', '--value', unit), 10)
+        return { state: 'running', pid: pid > 0 ? pid : undefined }
+      }
+      if (succeeds(() => systemctl('is-failed', '--quiet', unit))) return { state: 'failed' }
+      return { state: 'stopped' }
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import { join } from 'path'
+import type { RotationPolicy } from '../rotation.js'
+
+export type ServiceBackend = 'launchd' | 'systemd' | 'process' | 'dry-run'
+
+export type ServiceState = 'running' | 'stopped' | 'failed' | 'not-installed'
+
+export interface ServiceStatus {
+  state: ServiceState
+  pid?: number
+}
+
+export interface ServiceContext {
+  installDir: string
+  port: number
+  /** Exported as HOST so the board binds to it */
+  host?: string
+  /** Named instance; picks the plist label or unit names. Absent for the default instance */
+  instance?: string
+  /** Limits the scheduled log rotation job applies; the defaults when absent */
+  logRotation?: RotationPolicy
+  onWarning?: (message: string) => void
+}
+
+export interface ServiceManager {
+  readonly name: ServiceBackend
+  /** Whether the backend brings the board back after a reboot */
+  readonly autoStart: boolean
+  /** The plist or unit file the backend writes, if it has one */
+  readonly definitionPath?: string
+  /** The systemd unit whose own messages are in the user journal */
+  readonly journalUnit?: string
+  isInstalled(): boolean
+  install(): Promise<void>
+  uninstall(): Promise<void>
+  start(): Promise<void>
+  stop(): Promise<void>
+  restart(): Promise<void>
+  status(): Promise<ServiceStatus>
+}
+
+export function logPaths(installDir: string): { dir: string; stdout: string; stderr: string } {
+  const dir = join(installDir, 'logs')
+  return { dir, stdout: join(dir, 'stdout.log'), stderr: join(dir, 'stderr.log') }
+}
+
+/** How often the scheduled job checks whether the logs need rotating. */
+export const ROTATE_INTERVAL_SECONDS = 3600
@@ -0,0 +1,175 @@
+import { chmodSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { dirname, join, resolve } from 'path'
+import { DEFAULT_PORT } from './answers.js'
+import type { ContainerRuntime } from './container.js'
+import type { DatabaseMode } from './database.js'
+import { getEnvValue, readEnvFile } from './dotenv.js'
+import { runCommand } from './exec.js'
+import { instanceDir, namedInstance } from './instances.js'
+import type { ProxyRecord } from './network.js'
+import type { RotationPolicy } from './rotation.js'
+import type { ServiceBackend } from './services/index.js'
+import type { VersionPin } from './versions.js'
+
+export const STATE_DIR = join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'openclaw-board')
+const INSTANCES_DIR = join(STATE_DIR, 'instances')
+
+/** state.json for the default instance, instances/<name>.json for a named one */
+export function statePath(instance?: string): string {
+  const name = namedInstance(instance)
+  return name ? join(INSTANCES_DIR, `${name}.json`) : join(STATE_DIR, 'state.json')
+}
+
+/** How the board's database was provisioned; absent means a local server */
+export interface DatabaseRecord {
+  mode: DatabaseMode
+  runtime?: ContainerRuntime
+  container?: string
+  volume?: string
+}
+
+export interface InstallState {
+  /** Absent for the default instance */
+  instance?: string
+  installDir: string
+  port: number
+  /** Bind address; absent means the board's default */
+  host?: string
+  publicUrl?: string
+  /** ADMIN_TOKEN from .env; never written to the state file */
+  adminToken?: string
+  proxy?: ProxyRecord
+  databaseUrl?: string
+  database?: DatabaseRecord
+  service?: Exclude<ServiceBackend, 'dry-run'>
+  version?: string
+  commit?: string
+  /** Channel, tag or ref that updates follow; absent means the main branch */
+  pin?: VersionPin
+  /** Absent means the defaults */
+  logRotation?: RotationPolicy
+  installedAt: string
+  updatedAt?: string
+}
+
+export function readState(instance?: string): InstallState | null {
+  try {
+    const state = JSON.parse(readFileSync(statePath(instance), 'utf-8')) as Partial<InstallState>
+    if (typeof state.installDir !== 'string' || typeof state.port !== 'number') return null
+    return state as InstallState
+  } catch {
+    return null
+  }
+}
+
+export function writeState(state: InstallState): void {
+  const path = statePath(state.instance)
+  mkdirSync(dirname(path), { recursive: true })
+  // Holds the database URL, which may include a password
+  writeFileSync(path, JSON.stringify(state, null, 2) + '\n')
+  chmodSync(path, 0o600)
+}
+
+type InstallRef = Pick<InstallState, 'installDir' | 'instance'>
+
+/** Patches the state file if it describes the given install. */
+export function updateState(install: InstallRef, patch: Partial<InstallState>): void {
+  const state = readState(install.instance)
+  if (state?.installDir === resolve(install.installDir)) writeState({ ...state, ...patch })
+}
+
+/** Removes the state file if it describes the given install. */
+export function clearState(install: InstallRef): void {
+  if (readState(install.instance)?.installDir === resolve(install.installDir)) {
+    rmSync(statePath(install.instance), { force: true })
+  }
+}
+
+/** Named instances with a state file, sorted by name. */
+function namedInstances(): string[] {
+  if (!existsSync(INSTANCES_DIR)) return []
+  return readdirSync(INSTANCES_DIR)
+    .filter(name => name.endsWith('.json'))
+    .map(name => name.slice(0, -'.json'.length))
+    .sort()
+}
+
+/** Every install on this machine: the default instance first, then the named ones. */
+export function listInstances(): InstallState[] {
+  return [undefined, ...namedInstances()]
+    .map(instance => resolveInstall(undefined, instance))
+    .filter((install): install is InstallState => install !== null)
+}
+
+/** Version from the board's package.json and the checked-out git commit. */
+export function describeCheckout(installDir: string): Pick<InstallState, 'version' | 'commit'> {
+  let version: string | undefined
+  let commit: string | undefined
+  try {
+    version = JSON.parse(readFileSync(join(installDir, 'package.json'), 'utf-8')).version
+  } catch {
+    // No package.json
+  }
+  try {
+    commit = runCommand('git', ['rev-parse', 'HEAD'], { cwd: installDir })
+  } catch {
+    // Not a git checkout
+  }
+  return { version, commit }
+}
+
+function readEnv(installDir: string): Partial<Pick<InstallState, 'port' | 'host' | 'publicUrl' | 'adminToken' | 'databaseUrl'>> {
+  const env = readEnvFile(join(installDir, '.env'))
+  const port = getEnvValue(env, 'PORT')
+  return {
+    port: port && /^\d+$/.test(port) ? parseInt(port, 10) : undefined,
+    host: getEnvValue(env, 'HOST') || undefined,
+    publicUrl: getEnvValue(env, 'PUBLIC_URL') || undefined,
+    adminToken: getEnvValue(env, 'ADMIN_TOKEN') || undefined,
+    databaseUrl: getEnvValue(env, 'DATABASE_URL') || undefined,
+  }
+}
+
+/** The instance whose state file records this directory, if any. */
+function instanceForDir(installDir: string): string | undefined {
+  return namedInstances().find(name => readState(name)?.installDir === installDir)
+}
+
+/**
+ * Finds the install to operate on: an explicit directory if given, else the
+ * one recorded in the instance's state file, else the instance's default
+ * location. An explicit directory without an instance belongs to whichever
+ * instance recorded it. Values in the install's .env take precedence over
+ * what the state file remembers.
+ */
+export function resolveInstall(installDirOverride?: string, instance?: string): InstallState | null {
+  const name = namedInstance(instance)
+    ?? (installDirOverride && !instance ? instanceForDir(resolve(installDirOverride)) : undefined)
+  const saved = readState(name)
+  const installDir = resolve(installDirOverride ?? saved?.installDir ?? instanceDir(name))
+
+  if (!existsSync(join(installDir, '.env'))) return null
+
+  const base = saved?.installDir === installDir ? saved : null
+  const env = readEnv(installDir)
+
+  return {
+    instance: name,
+    installDir,
+    port: env.port ?? base?.port ?? DEFAULT_PORT,
+    host: env.host,
+    publicUrl: env.publicUrl,
+    adminToken: env.adminToken,
+    proxy: base?.proxy,
+    databaseUrl: env.databaseUrl ?? base?.databaseUrl,
+    database: base?.database,
+    service: base?.service,
+    version: base?.version,
+    commit: base?.commit,
+    pin: base?.pin,
+    logRotation: base?.logRotation,
+    installedAt: base?.installedAt ?? '',
+    updatedAt: base?.updatedAt,
+  }
+}
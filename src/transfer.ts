@@ -0,0 +1,601 @@
+import * as p from '@clack/prompts'
+import { createHash, randomBytes } from 'crypto'
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import pc from 'picocolors'
+import { expandHome } from './answers.js'
+import { parseFlags } from './args.js'
+import { createBackup, formatSize, requireDatabaseUrl } from './backups.js'
+import { databaseSchema, queryDatabase, runSqlFile } from './database.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { commandExists } from './exec.js'
+import { probeHealth, waitForHealthy } from './health.js'
+import { instanceSlug } from './instances.js'
+import { isInteractive, type CommandResult } from './output.js'
+import type { ServiceManager } from './services/index.js'
+import { describeCheckout, type InstallState } from './state.js'
+
+/**
+ * Exports are plain JSON rather than pg_dump output, so they load into any
+ * board whose schema has the same tables, whatever Postgres it runs on.
+ */
+export const ARCHIVE_FORMAT = 'openclaw-board-export'
+/** Bumped when the archive layout changes; archives from a newer installer are refused */
+export const ARCHIVE_VERSION = 1
+
+export const IMPORT_MODES = ['merge', 'replace'] as const
+export type ImportMode = typeof IMPORT_MODES[number]
+
+export interface ArchiveTable {
+  name: string
+  primaryKey: string[]
+  columns: string[]
+  /** Tables this one has foreign keys to, which must be loaded first */
+  references: string[]
+  rows: Record<string, unknown>[]
+}
+
+export interface BoardArchive {
+  format: typeof ARCHIVE_FORMAT
+  formatVersion: number
+  exportedAt: string
+  board: { version: string | null; commit: string | null }
+  /** Fingerprint of prisma/schema.prisma the data was exported from */
+  schema: { version: string | null }
+  tables: ArchiveTable[]
+}
+
+export interface ImportedTable {
+  name: string
+  rows: number
+  imported: number
+  /** Rows left out because their key already existed (merge only) */
+  skipped: number
+}
+
+interface ForeignKey {
+  columns: string[]
+  table: string
+  refColumns: string[]
+}
+
+interface TableInfo {
+  name: string
+  primaryKey: string[]
+  columns: string[]
+  serialColumns: string[]
+  references: string[]
+  foreignKeys: ForeignKey[]
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`
+
+export function requirePsql(): void {
+  if (!commandExists('psql')) {
+    throw new InstallerError('Export and import need psql (the PostgreSQL client); install it and try again', ExitCode.Prerequisites)
+  }
+}
+
+export function schemaVersion(installDir: string): string | null {
+  try {
+    const schema = readFileSync(join(installDir, 'prisma', 'schema.prisma'))
+    return createHash('sha256').update(schema).digest('hex').slice(0, 12)
+  } catch {
+    return null
+  }
+}
+
+/** The board's tables with their keys and columns, read from the Postgres catalog. */
+function describeTables(databaseUrl: string): TableInfo[] {
+  const schema = databaseSchema(databaseUrl)
+  const sql = `
+    SELECT coalesce(json_agg(json_build_object(
+      'name', c.relname,
+      'primaryKey', (
+        SELECT coalesce(json_agg(a.attname ORDER BY array_position(i.indkey::int2[], a.attnum)), '[]')
+        FROM pg_index i JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+        WHERE i.indrelid = c.oid AND i.indisprimary
+      ),
+      'columns', (
+        SELECT coalesce(json_agg(a.attname ORDER BY a.attnum), '[]')
+        FROM pg_attribute a
+        WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      ),
+      'serialColumns', (
+        SELECT coalesce(json_agg(a.attname ORDER BY a.attnum), '[]')
+        FROM pg_attribute a
+        WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+          AND pg_get_serial_sequence(format('%I.%I', n.nspname, c.relname), a.attname) IS NOT NULL
+      ),
+      'references', (
+        SELECT coalesce(json_agg(DISTINCT r.relname), '[]')
+        FROM pg_constraint f JOIN pg_class r ON r.oid = f.confrelid
+        WHERE f.conrelid = c.oid AND f.contype = 'f' AND f.confrelid <> c.oid
+      ),
+      'foreignKeys', (
+        SELECT coalesce(json_agg(json_build_object(
+          'columns', (
+            SELECT json_agg(a.attname ORDER BY k.i)
+            FROM unnest(f.conkey) WITH ORDINALITY k(attnum, i)
+            JOIN pg_attribute a ON a.attrelid = f.conrelid AND a.attnum = k.attnum
+          ),
+          'table', r.relname,
+          'refColumns', (
+            SELECT json_agg(a.attname ORDER BY k.i)
+            FROM unnest(f.confkey) WITH ORDINALITY k(attnum, i)
+            JOIN pg_attribute a ON a.attrelid = f.confrelid AND a.attnum = k.attnum
+          )
+        )), '[]')
+        FROM pg_constraint f JOIN pg_class r ON r.oid = f.confrelid
+        WHERE f.conrelid = c.oid AND f.contype = 'f'
+      )
+    ) ORDER BY c.relname), '[]')
+    FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ${quoteLiteral(schema)} AND c.relkind IN ('r', 'p')
+      AND NOT c.relispartition AND c.relname <> '_prisma_migrations'`
+  return JSON.parse(queryDatabase(databaseUrl, sql)) as TableInfo[]
+}
+
+/** Reads every table of a running install into an archive. */
+export function exportArchive(installDir: string, databaseUrl: string): BoardArchive {
+  const schema = databaseSchema(databaseUrl)
+  const tables = describeTables(databaseUrl).map(({ name, primaryKey, columns, references }) => {
+    const table = `${quoteIdent(schema)}.${quoteIdent(name)}`
+    const order = primaryKey.length > 0 ? ` ORDER BY ${primaryKey.map(col => `t.${quoteIdent(col)}`).join(', ')}` : ''
+    const rows = JSON.parse(queryDatabase(databaseUrl, `SELECT coalesce(json_agg(t${order}), '[]') FROM ${table} t`))
+    return { name, primaryKey, columns, references, rows }
+  })
+
+  const { version, commit } = describeCheckout(installDir)
+  return {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: { version: version ?? null, commit: commit ?? null },
+    schema: { version: schemaVersion(installDir) },
+    tables,
+  }
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+function checkTable(value: unknown, index: number): string | undefined {
+  if (!isRecord(value) || typeof value.name !== 'string') return `table ${index + 1} has no name`
+  const { name, primaryKey, columns, references, rows } = value
+  if (!isStringList(columns) || columns.length === 0) return `table ${name} has no column list`
+  if (!isStringList(primaryKey) || !primaryKey.every(col => columns.includes(col))) return `table ${name} has an invalid primary key`
+  if (references !== undefined && !isStringList(references)) return `table ${name} has an invalid reference list`
+  if (!Array.isArray(rows)) return `table ${name} has no rows list`
+
+  const keys = new Set<string>()
+  for (const [i, row] of rows.entries()) {
+    if (!isRecord(row)) return `row ${i + 1} of ${name} is not an object`
+    const unknown = Object.keys(row).find(col => !columns.includes(col))
+    if (unknown) return `row ${i + 1} of ${name} has a column not in its column list: ${unknown}`
+    if (primaryKey.length === 0) continue
+    const key = JSON.stringify(primaryKey.map(col => row[col]))
+    if (keys.has(key)) return `table ${name} has two rows with the key ${key}`
+    keys.add(key)
+  }
+  return undefined
+}
+
+/** Reads and checks an archive; anything that isn't a well-formed export is an InvalidConfig error. */
+export function readArchive(file: string): BoardArchive {
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'))
+  } catch (err) {
+    const reason = (err as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : (err as Error).message
+    throw new InstallerError(`Cannot read export ${file}: ${reason}`, ExitCode.InvalidConfig)
+  }
+
+  const invalid = (reason: string) => new InstallerError(`Invalid export ${file}: ${reason}`, ExitCode.InvalidConfig)
+  if (!isRecord(data) || data.format !== ARCHIVE_FORMAT) throw invalid('not an OpenClaw Board export')
+  if (typeof data.formatVersion !== 'number' || !Number.isInteger(data.formatVersion) || data.formatVersion < 1) {
+    throw invalid('missing format version')
+  }
+  if (data.formatVersion > ARCHIVE_VERSION) {
+    throw invalid(`format version ${data.formatVersion} is newer than this installer supports (${ARCHIVE_VERSION}); update the installer`)
+  }
+  if (!Array.isArray(data.tables)) throw invalid('missing tables')
+
+  const names = new Set<string>()
+  for (const [i, table] of data.tables.entries()) {
+    const problem = checkTable(table, i)
+    if (problem) throw invalid(problem)
+    if (names.has(table.name)) throw invalid(`table ${table.name} appears twice`)
+    names.add(table.name)
+  }
+
+  const board = isRecord(data.board) ? data.board : {}
+  const schema = isRecord(data.schema) ? data.schema : {}
+  return {
+    format: ARCHIVE_FORMAT,
+    formatVersion: data.formatVersion,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    board: {
+      version: typeof board.version === 'string' ? board.version : null,
+      commit: typeof board.commit === 'string' ? board.commit : null,
+    },
+    schema: { version: typeof schema.version === 'string' ? schema.version : null },
+    tables: (data.tables as ArchiveTable[]).map(table => ({ ...table, references: table.references ?? [] })),
+  }
+}
+
+export function countRows(archive: BoardArchive): number {
+  return archive.tables.reduce((total, table) => total + table.rows.length, 0)
+}
+
+/** Orders tables so each comes after the ones it references; cycles keep archive order. */
+function loadOrder(tables: ArchiveTable[]): ArchiveTable[] {
+  const byName = new Map(tables.map(table => [table.name, table]))
+  const ordered: ArchiveTable[] = []
+  const visiting = new Set<string>()
+  const done = new Set<string>()
+
+  const visit = (table: ArchiveTable) => {
+    if (done.has(table.name) || visiting.has(table.name)) return
+    visiting.add(table.name)
+    for (const ref of table.references) {
+      const dependency = byName.get(ref)
+      if (dependency) visit(dependency)
+    }
+    visiting.delete(table.name)
+    done.add(table.name)
+    ordered.push(table)
+  }
+  tables.forEach(visit)
+  return ordered
+}
+
+/** Tables and columns in the archive that the target database lacks. */
+function schemaMismatches(archive: BoardArchive, target: Map<string, TableInfo>): string[] {
+  const problems: string[] = []
+  for (const table of archive.tables) {
+    const info = target.get(table.name)
+    if (!info) {
+      if (table.rows.length > 0) problems.push(`table ${table.name}`)
+      continue
+    }
+    const missing = table.columns.filter(col => !info.columns.includes(col))
+    problems.push(...missing.map(col => `column ${table.name}.${col}`))
+  }
+  return problems
+}
+
+/** A dollar-quote tag that does not occur in the text it will quote. */
+function dollarTag(text: string): string {
+  let tag: string
+  do {
+    tag = `$json_${randomBytes(4).toString('hex')}$`
+  } while (text.includes(tag))
+  return tag
+}
+
+/**
+ * Tables outside the archive that replace mode empties as well: TRUNCATE
+ * CASCADE reaches every table with a foreign key into one it empties.
+ */
+function cascadeFrom(archive: BoardArchive, target: Map<string, TableInfo>): string[] {
+  const emptied = new Set(archive.tables.map(table => table.name).filter(name => target.has(name)))
+  const cascaded: string[] = []
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const info of target.values()) {
+      if (emptied.has(info.name) || !info.foreignKeys.some(fk => emptied.has(fk.table))) continue
+      emptied.add(info.name)
+      cascaded.push(info.name)
+      grew = true
+    }
+  }
+  return cascaded.sort()
+}
+
+export function cascadedTables(databaseUrl: string, archive: BoardArchive): string[] {
+  return cascadeFrom(archive, new Map(describeTables(databaseUrl).map(table => [table.name, table])))
+}
+
+/**
+ * The query that counts, for one foreign key, the new archive rows whose
+ * parent merge would skip because its key already belongs to a different
+ * row here. Those rows would be inserted pointing at that unrelated row.
+ */
+function misattachedSql(child: ArchiveTable, parent: ArchiveTable, fk: ForeignKey, childInfo: TableInfo, parentInfo: TableInfo, schema: string): string {
+  const qualified = (name: string) => `${quoteIdent(schema)}.${quoteIdent(name)}`
+  const rows = (table: ArchiveTable) => {
+    const json = JSON.stringify(table.rows)
+    const tag = dollarTag(json)
+    return `json_populate_recordset(NULL::${qualified(table.name)}, ${tag}${json}${tag}::json)`
+  }
+  const list = (alias: string, columns: string[]) => `(${columns.map(col => `${alias}.${quoteIdent(col)}`).join(', ')})`
+  const matchKey = (key: string[], a: string, b: string) => key.map(col => `${a}.${quoteIdent(col)} = ${b}.${quoteIdent(col)}`).join(' AND ')
+  // Compared as text, since some types (json) have no equality operator
+  const content = (alias: string) => `(${parent.columns.map(col => `${alias}.${quoteIdent(col)}::text`).join(', ')})`
+  const isNew = childInfo.primaryKey.length > 0
+    ? `NOT EXISTS (SELECT 1 FROM ${qualified(child.name)} e WHERE ${matchKey(childInfo.primaryKey, 'e', 'c')})`
+    : 'true'
+  return [
+    `WITH taken AS (`,
+    `  SELECT ${fk.refColumns.map(col => `a.${quoteIdent(col)}`).join(', ')}`,
+    `  FROM ${rows(parent)} a JOIN ${qualified(parent.name)} e ON ${matchKey(parentInfo.primaryKey, 'a', 'e')}`,
+    `  WHERE ${content('a')} IS DISTINCT FROM ${content('e')}`,
+    `)`,
+    `SELECT 'misattached', ${quoteLiteral(child.name)}, ${quoteLiteral(parent.name)}, count(*)`,
+    `FROM ${rows(child)} c`,
+    `WHERE ${isNew} AND ${list('c', fk.columns)} IN (SELECT * FROM taken);`,
+  ].join('\n')
+}
+
+/**
+ * Merge skips archive rows whose key is taken, but their children in the
+ * archive are still inserted and would attach to whatever row holds that
+ * key here. Returns a description of each such case; nothing is changed.
+ */
+function findMisattachedRows(databaseUrl: string, archive: BoardArchive, schema: string, target: Map<string, TableInfo>): string[] {
+  const byName = new Map(archive.tables.map(table => [table.name, table]))
+  const queries: string[] = []
+  for (const child of archive.tables) {
+    const childInfo = target.get(child.name)
+    if (!childInfo || child.rows.length === 0) continue
+    for (const fk of childInfo.foreignKeys) {
+      const parent = byName.get(fk.table)
+      const parentInfo = target.get(fk.table)
+      if (!parent || !parentInfo || parent.rows.length === 0 || parentInfo.primaryKey.length === 0) continue
+      if (!fk.columns.every(col => child.columns.includes(col))) continue
+      if (!fk.refColumns.every(col => parent.columns.includes(col))) continue
+      queries.push(misattachedSql(child, parent, fk, childInfo, parentInfo, schema))
+    }
+  }
+  if (queries.length === 0) return []
+
+  const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-import-'))
+  const file = join(dir, 'check.sql')
+  let output: string
+  try {
+    writeFileSync(file, queries.join('\n') + '\n', { mode: 0o600 })
+    output = runSqlFile(databaseUrl, file)
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+
+  const problems: string[] = []
+  for (const line of output.split('\n')) {
+    const [marker, child, parent, count] = line.split('|')
+    const rows = parseInt(count, 10)
+    if (marker !== 'misattached' || !rows) continue
+    problems.push(`${rows} ${child} row${rows === 1 ? '' : 's'} would attach to a different ${parent} than in the export`)
+  }
+  return problems
+}
+
+/** The script importArchive runs; it prints one `imported|table|count` line per table. */
+function buildImportSql(archive: BoardArchive, schema: string, target: Map<string, TableInfo>, mode: ImportMode): string {
+  const tables = loadOrder(archive.tables).filter(table => target.has(table.name))
+  const qualified = (name: string) => `${quoteIdent(schema)}.${quoteIdent(name)}`
+  const lines: string[] = []
+
+  // CASCADE also empties the tables cascadedTables lists, which the confirmation names
+  if (mode === 'replace' && tables.length > 0) {
+    lines.push(`TRUNCATE ${tables.map(table => qualified(table.name)).join(', ')} CASCADE;`)
+  }
+
+  for (const table of tables) {
+    const name = qualified(table.name)
+    const columns = table.columns.map(quoteIdent).join(', ')
+    const rows = JSON.stringify(table.rows)
+    const tag = dollarTag(rows)
+    lines.push(
+      `WITH inserted AS (`,
+      `  INSERT INTO ${name} (${columns})`,
+      `  SELECT ${columns} FROM json_populate_recordset(NULL::${name}, ${tag}${rows}${tag}::json)`,
+      ...(mode === 'merge' ? ['  ON CONFLICT DO NOTHING'] : []),
+      `  RETURNING 1`,
+      `) SELECT 'imported', ${quoteLiteral(table.name)}, count(*) FROM inserted;`,
+    )
+    // Serial ids have to carry on after the highest imported one
+    for (const col of target.get(table.name)!.serialColumns) {
+      lines.push(
+        `SELECT setval(pg_get_serial_sequence(${quoteLiteral(name)}, ${quoteLiteral(col)}), ` +
+        `coalesce(max(${quoteIdent(col)}), 0) + 1, false) FROM ${name};`,
+      )
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Loads an archive into the database in one transaction, so a failed import
+ * leaves the data as it was. Merge keeps existing rows and skips archive rows
+ * whose key is taken, and refuses when that would leave imported rows
+ * pointing at a different parent; replace empties the archive's tables first.
+ */
+export function importArchive(databaseUrl: string, archive: BoardArchive, mode: ImportMode, force = false): ImportedTable[] {
+  const target = new Map(describeTables(databaseUrl).map(table => [table.name, table]))
+  const mismatches = schemaMismatches(archive, target)
+  if (mismatches.length > 0 && !force) {
+    throw new InstallerError(
+      `This board's database has no ${mismatches.join(', ')}; update the board to the version the export came from` +
+      `${archive.board.version ? ` (${archive.board.version})` : ''} or pass --force to leave that data out`,
+      ExitCode.InvalidConfig,
+    )
+  }
+
+  const compatible: BoardArchive = {
+    ...archive,
+    tables: archive.tables.map(table => {
+      const info = target.get(table.name)
+      if (!info) return table
+      const columns = table.columns.filter(col => info.columns.includes(col))
+      return { ...table, columns }
+    }),
+  }
+
+  const schema = databaseSchema(databaseUrl)
+  if (mode === 'merge') {
+    const misattached = findMisattachedRows(databaseUrl, compatible, schema, target)
+    if (misattached.length > 0) {
+      throw new InstallerError(
+        `Cannot merge: keys in the export are already used by other rows here, so ${misattached.join('; ')}. ` +
+        'Import into an empty board, or use --mode replace',
+        ExitCode.InvalidConfig,
+      )
+    }
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-import-'))
+  const file = join(dir, 'import.sql')
+  let output: string
+  try {
+    writeFileSync(file, buildImportSql(compatible, schema, target, mode), { mode: 0o600 })
+    output = runSqlFile(databaseUrl, file)
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+
+  const imported = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    const [marker, name, count] = line.split('|')
+    if (marker === 'imported' && name !== undefined) imported.set(name, parseInt(count, 10) || 0)
+  }
+  return archive.tables.map(table => {
+    const count = imported.get(table.name) ?? 0
+    return { name: table.name, rows: table.rows.length, imported: count, skipped: table.rows.length - count }
+  })
+}
+
+export async function runExport(install: InstallState, argv: string[]): Promise<CommandResult> {
+  const { values } = parseFlags(argv, { output: { type: 'string', short: 'o' } })
+  const databaseUrl = requireDatabaseUrl(install)
+  requirePsql()
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const file = resolve(expandHome(values.output ?? `${instanceSlug(install.instance)}-export-${stamp}.json`))
+
+  console.log('Exporting board data...')
+  const archive = exportArchive(install.installDir, databaseUrl)
+  writeFileSync(file, JSON.stringify(archive, null, 2) + '\n', { mode: 0o600 })
+
+  const { size } = statSync(file)
+  const rows = countRows(archive)
+  console.log(pc.green(`✓ Exported ${rows} row${rows === 1 ? '' : 's'} from ${archive.tables.length} tables to ${file} (${formatSize(size)})`))
+  return {
+    ok: true,
+    file,
+    size,
+    board: archive.board,
+    schema: archive.schema,
+    tables: archive.tables.map(table => ({ name: table.name, rows: table.rows.length })),
+  }
+}
+
+function parseMode(value: string | undefined): ImportMode {
+  if (value === undefined) return 'merge'
+  if ((IMPORT_MODES as readonly string[]).includes(value)) return value as ImportMode
+  throw new InstallerError(`--mode must be one of ${IMPORT_MODES.join(', ')}`, ExitCode.Usage)
+}
+
+export function printImported(results: ImportedTable[]): void {
+  const width = Math.max(...results.map(result => result.name.length))
+  for (const result of results) {
+    const skipped = result.skipped > 0 ? pc.yellow(`, ${result.skipped} skipped (key already exists)`) : ''
+    console.log(`  ${pc.cyan(result.name.padEnd(width))}  ${result.imported} imported${skipped}`)
+  }
+}
+
+export async function runImport(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  const { values, positionals } = parseFlags(argv, {
+    mode: { type: 'string' },
+    yes: { type: 'boolean', short: 'y' },
+    'skip-backup': { type: 'boolean' },
+    force: { type: 'boolean' },
+  })
+  const mode = parseMode(values.mode)
+  if (!positionals[0]) {
+    throw new InstallerError('Usage: import <file> [--mode merge|replace]', ExitCode.Usage)
+  }
+  const databaseUrl = requireDatabaseUrl(install)
+  requirePsql()
+
+  const file = resolve(expandHome(positionals[0]))
+  const archive = readArchive(file)
+  const exportedFrom = archive.board.version ? ` from board ${archive.board.version}` : ''
+  console.log(`Importing ${pc.cyan(file)} (exported ${archive.exportedAt || 'at an unknown time'}${exportedFrom})`)
+  console.log(`${countRows(archive)} rows in ${archive.tables.length} tables, ${mode} mode`)
+
+  const currentSchema = schemaVersion(install.installDir)
+  if (archive.schema.version && currentSchema && archive.schema.version !== currentSchema) {
+    console.log(pc.yellow('The export came from a different board schema; rows are matched by column name.'))
+  }
+
+  const cascaded = mode === 'replace' ? cascadedTables(databaseUrl, archive) : []
+  if (mode === 'replace') {
+    console.log(pc.yellow('This replaces the current data in every table the export contains.'))
+    if (cascaded.length > 0) {
+      console.log(pc.yellow(`It also empties ${cascaded.join(', ')}, which the export doesn't contain but which refer to its tables.`))
+    }
+    if (!values.yes) {
+      if (!isInteractive()) {
+        throw new InstallerError('Refusing to replace board data without confirmation; pass --yes', ExitCode.Usage)
+      }
+      const proceed = await p.confirm({ message: 'Replace board data with this export?', initialValue: false })
+      if (p.isCancel(proceed) || !proceed) {
+        p.outro(pc.yellow('Cancelled.'))
+        return { ok: false, cancelled: true }
+      }
+    }
+  }
+
+  let backup: string | undefined
+  if (!values['skip-backup']) {
+    console.log('Backing up database...')
+    const info = await createBackup(install.installDir, databaseUrl, 'pre-import')
+    backup = info.file
+    console.log(pc.green(`✓ Backup written: ${info.file} (${formatSize(info.size)})`))
+  }
+
+  // Replacing rows under a running board can leave it serving stale caches
+  const before = mode === 'replace'
+    ? await probeHealth(install.port, { service, host: install.host, token: install.adminToken })
+    : undefined
+  const wasRunning = before !== undefined && before.state !== 'stopped' && before.state !== 'foreign'
+  if (wasRunning) {
+    console.log('Stopping OpenClaw Board...')
+    await service.stop().catch(() => {
+      // Not running
+    })
+  }
+
+  let results: ImportedTable[]
+  try {
+    console.log('Importing...')
+    results = importArchive(databaseUrl, archive, mode, values.force)
+  } finally {
+    if (wasRunning) {
+      console.log('Starting OpenClaw Board...')
+      await service.start()
+    }
+  }
+
+  printImported(results)
+  const imported = results.reduce((total, result) => total + result.imported, 0)
+  console.log(pc.green(`✓ Imported ${imported} row${imported === 1 ? '' : 's'}`))
+  if (backup) console.log(pc.dim(`Undo with: npx openclaw-board-installer restore ${backup}`))
+
+  if (!wasRunning) return { ok: true, file, mode, backup, cascaded, tables: results }
+
+  const health = await waitForHealthy(install.port, { service, host: install.host, token: install.adminToken })
+  if (health.state === 'running') {
+    console.log(pc.green('✓ Board restarted'))
+  } else {
+    console.log(pc.yellow(`Board is ${health.state}; check ${pc.cyan('npx openclaw-board-installer status')}`))
+  }
+  return { ok: true, file, mode, backup, cascaded, tables: results, state: health.state }
+}
@@ -0,0 +1,261 @@
+import * as p from '@clack/prompts'
+import { existsSync, readFileSync, renameSync, rmSync } from 'fs'
+import { join } from 'path'
+import pc from 'picocolors'
+import { parseFlags } from './args.js'
+import { cliConfigPath, unconfigureCli } from './auth.js'
+import { backupDir, listBackups } from './backups.js'
+import { getEnvValue, readEnvFile } from './dotenv.js'
+import { removePostgresContainer, type ContainerRuntime } from './container.js'
+import { toPgConnection } from './database.js'
+import { ExitCode, InstallerError } from './errors.js'
+import { runCommand } from './exec.js'
+import { isInteractive, type CommandResult } from './output.js'
+import { createDryRunService, type ServiceManager } from './services/index.js'
+import { clearState, listInstances, type InstallState } from './state.js'
+
+interface UninstallPlan {
+  instance?: string
+  installDir: string
+  service: ServiceManager
+  cliPackage: string | null
+  /** Another instance's cli/ to point the global ocb at once this one's is gone */
+  relinkCli: string | null
+  /** The admin token to remove from ocb's config */
+  cliToken?: string
+  database: { name: string; url: URL } | null
+  /** Set when the database runs in a container the installer started */
+  container: { runtime: ContainerRuntime; container: string; volume?: string } | null
+  dropDatabase: boolean
+  /** Database backups in the install; they are moved to `keptAt` unless the data is dropped */
+  backups: { count: number; keptAt?: string } | null
+}
+
+function readCliPackageName(installDir: string): string | null {
+  try {
+    const pkg = JSON.parse(readFileSync(join(installDir, 'cli', 'package.json'), 'utf-8'))
+    return typeof pkg.name === 'string' ? pkg.name : null
+  } catch {
+    return null
+  }
+}
+
+function readDatabase(installDir: string): { name: string; url: URL } | null {
+  try {
+    const databaseUrl = getEnvValue(readEnvFile(join(installDir, '.env')), 'DATABASE_URL')
+    if (!databaseUrl) return null
+    const url = new URL(databaseUrl)
+    const name = decodeURIComponent(url.pathname.slice(1))
+    return name ? { name, url } : null
+  } catch {
+    return null
+  }
+}
+
+function dropDatabase({ url }: { name: string; url: URL }): void {
+  // Same connection as backups use: socket directory, SSL mode and password included
+  const conn = toPgConnection(url.toString())
+  const maintenance = new URL(conn.uri)
+  maintenance.pathname = '/postgres'
+  runCommand('dropdb', ['--if-exists', `--maintenance-db=${maintenance}`, conn.database], { env: conn.env })
+}
+
+/** Where kept backups go: beside the install directory, under a name not yet taken. */
+function backupsDestination(installDir: string): string {
+  let path = `${installDir}-backups`
+  for (let n = 2; existsSync(path); n++) path = `${installDir}-backups-${n}`
+  return path
+}
+
+function printPlan(plan: UninstallPlan): void {
+  console.log(pc.bold('\nThe following will be removed:\n'))
+  if (plan.service.autoStart && plan.service.isInstalled()) {
+    console.log(`  ${pc.red('✗')} ${plan.service.name} service (stopped and unregistered)`)
+  } else {
+    console.log(`  ${pc.red('✗')} Running board process (stopped)`)
+  }
+  if (plan.cliPackage) {
+    console.log(`  ${pc.red('✗')} Global ${pc.cyan('ocb')} CLI link (${plan.cliPackage})`)
+  } else if (plan.relinkCli) {
+    console.log(`  ${pc.dim(`• Global ${pc.cyan('ocb')} CLI link (relinked to ${plan.relinkCli})`)}`)
+  }
+  if (plan.cliToken) {
+    console.log(`  ${pc.red('✗')} Admin token in ${pc.cyan(cliConfigPath(plan.instance))}`)
+  }
+  console.log(`  ${pc.red('✗')} ${pc.cyan(plan.installDir)}`)
+  if (plan.backups) {
+    const label = `${plan.backups.count} database backup${plan.backups.count === 1 ? '' : 's'}`
+    console.log(plan.backups.keptAt
+      ? `  ${pc.dim(`• ${label} (moved to ${plan.backups.keptAt})`)}`
+      : `  ${pc.red('✗')} ${label}`)
+  }
+  if (plan.container) {
+    console.log(`  ${pc.red('✗')} ${plan.container.runtime} container ${pc.cyan(plan.container.container)}`)
+    if (plan.container.volume) {
+      const label = `Data volume ${pc.cyan(plan.container.volume)}`
+      console.log(plan.dropDatabase ? `  ${pc.red('✗')} ${label}` : `  ${pc.dim(`• ${label} (kept)`)}`)
+    }
+  } else if (plan.database) {
+    const label = `Database ${pc.cyan(plan.database.name)}`
+    console.log(plan.dropDatabase ? `  ${pc.red('✗')} ${label}` : `  ${pc.dim(`• ${label} (kept)`)}`)
+  }
+  console.log('')
+}
+
+export async function runUninstall(install: InstallState, service: ServiceManager, argv: string[]): Promise<CommandResult> {
+  const { installDir } = install
+  const { values } = parseFlags(argv, {
+    'dry-run': { type: 'boolean' },
+    'keep-data': { type: 'boolean' },
+    'drop-db': { type: 'boolean' },
+    yes: { type: 'boolean', short: 'y' },
+  })
+
+  if (values['keep-data'] && values['drop-db']) {
+    throw new InstallerError('--keep-data and --drop-db cannot be combined', ExitCode.Usage)
+  }
+
+  const dryRun = Boolean(values['dry-run'])
+  const interactive = isInteractive() && !values.yes
+  const database = readDatabase(installDir)
+
+  let dropDb = Boolean(values['drop-db'])
+  if (database && !dropDb && !values['keep-data'] && interactive) {
+    const answer = await p.confirm({
+      message: `Also drop the ${database.name} database? All tasks will be lost.`,
+      initialValue: false,
+    })
+    if (p.isCancel(answer)) {
+      p.outro(pc.yellow('Cancelled.'))
+      return { ok: false, cancelled: true }
+    }
+    dropDb = answer
+  }
+
+  const cliPackage = readCliPackageName(installDir)
+  const others = listInstances().filter(other => other.installDir !== installDir)
+  const plan: UninstallPlan = {
+    instance: install.instance,
+    installDir,
+    service,
+    // The global ocb link is shared; keep it while other instances remain
+    cliPackage: others.length === 0 ? cliPackage : null,
+    relinkCli: cliPackage ? others.map(other => join(other.installDir, 'cli')).find(dir => existsSync(dir)) ?? null : null,
+    cliToken: install.adminToken,
+    database,
+    container: install.database?.runtime && install.database.container
+      ? { runtime: install.database.runtime, container: install.database.container, volume: install.database.volume }
+      : null,
+    dropDatabase: dropDb,
+    backups: null,
+  }
+  const backupCount = listBackups(installDir).length
+  if (backupCount > 0) {
+    plan.backups = { count: backupCount, ...(!dropDb && { keptAt: backupsDestination(installDir) }) }
+  }
+
+  printPlan(plan)
+
+  if (!dryRun && interactive) {
+    const proceed = await p.confirm({ message: 'Uninstall OpenClaw Board?', initialValue: false })
+    if (p.isCancel(proceed) || !proceed) {
+      p.outro(pc.yellow('Cancelled.'))
+      return { ok: false, cancelled: true }
+    }
+  } else if (!dryRun && !values.yes) {
+    throw new InstallerError('Refusing to uninstall without confirmation; pass --yes', ExitCode.Usage)
+  }
+
+  // In dry-run mode each step is only announced
+  const steps: string[] = []
+  const step = (description: string, action: () => void) => {
+    steps.push(description)
+    if (dryRun) console.log(pc.dim(`[dry-run] would ${description}`))
+    else action()
+  }
+
+  const actor = dryRun ? createDryRunService(service) : service
+  await actor.stop().catch(() => {
+    // Not running
+  })
+  await actor.uninstall()
+  if (service.autoStart && !dryRun) {
+    console.log(pc.green(`✓ Removed ${service.name} service`))
+  }
+
+  if (plan.cliPackage) {
+    const { cliPackage } = plan
+    step(`unlink the global ${cliPackage} package`, () => {
+      try {
+        runCommand('npm', ['rm', '-g', cliPackage])
+        console.log(pc.green('✓ Unlinked ocb CLI'))
+      } catch {
+        console.log(pc.yellow(`Could not unlink ${cliPackage}; run: npm rm -g ${cliPackage}`))
+      }
+    })
+  }
+
+  const { cliToken } = plan
+  if (cliToken) {
+    const path = cliConfigPath(install.instance)
+    step(`remove the admin token from ${path}`, () => {
+      if (unconfigureCli(cliToken, install.instance)) console.log(pc.green(`✓ Removed the admin token from ${path}`))
+    })
+  }
+
+  const { relinkCli } = plan
+  if (relinkCli) {
+    step(`relink the global ocb CLI to ${relinkCli}`, () => {
+      try {
+        runCommand('npm', ['link'], { cwd: relinkCli })
+        console.log(pc.green(`✓ Relinked ocb CLI to ${relinkCli}`))
+      } catch {
+        console.log(pc.yellow(`Could not relink ocb; run: cd ${relinkCli} && npm link`))
+      }
+    })
+  }
+
+  const { container } = plan
+  if (container) {
+    const what = plan.dropDatabase && container.volume
+      ? `container ${container.container} and volume ${container.volume}`
+      : `container ${container.container}`
+    step(`remove ${what}`, () => {
+      try {
+        removePostgresContainer(container.runtime, container.container, container.volume, { keepVolume: !plan.dropDatabase })
+        console.log(pc.green(`✓ Removed ${what}`))
+      } catch {
+        console.log(pc.yellow(`Could not remove ${what}; run: ${container.runtime} rm -f ${container.container}`))
+      }
+    })
+  } else if (database && plan.dropDatabase) {
+    step(`drop database ${database.name}`, () => {
+      try {
+        dropDatabase(database)
+        console.log(pc.green(`✓ Dropped database ${database.name}`))
+      } catch (err) {
+        console.log(pc.yellow(`Could not drop database; run: dropdb ${database.name}`))
+        console.log(pc.dim((err as Error).message))
+      }
+    })
+  }
+
+  const keptAt = plan.backups?.keptAt
+  if (keptAt) {
+    step(`move the database backups to ${keptAt}`, () => {
+      renameSync(backupDir(installDir), keptAt)
+      console.log(pc.green(`✓ Moved the database backups to ${keptAt}`))
+    })
+  }
+
+  step(`remove ${installDir}`, () => {
+    rmSync(installDir, { recursive: true, force: true })
+    clearState(install)
+    console.log(pc.green(`✓ Removed ${installDir}`))
+  })
+
+  console.log(dryRun
+    ? pc.dim('\nDry run: nothing was removed.')
+    : pc.green('\n✓ OpenClaw Board uninstalled'))
+  return { ok: true, dryRun, backupsKeptAt: keptAt ?? null, steps: [`stop and remove the ${service.name} service`, ...steps] }
+}
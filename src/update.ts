@@ -0,0 +1,265 @@
+import { existsSync } from 'fs'
+import { basename, join } from 'path'
+import pc from 'picocolors'
+import { DEFAULT_BACKUP_RETENTION, createBackup, pruneBackups } from './backups.js'
+import {
+  checkoutFromBundle,
+  discardBundle,
+  discardSavedDependencies,
+  restoreDependencies,
+  swapDependencies,
+  unpackBundle,
+  type UnpackedBundle,
+} from './bundle.js'
+import { restoreDatabase } from './database.js'
+import { CommandError, runCommand, runCommandAsync } from './exec.js'
+import { probeHealth, waitForHealthy } from './health.js'
+import type { ServiceManager } from './services/index.js'
+import { describeCheckout, updateState, type InstallState } from './state.js'
+import {
+  checkoutTarget,
+  describePin,
+  describeTarget,
+  listRemoteRefs,
+  resolveTarget,
+  type CheckoutTarget,
+  type VersionPin,
+} from './versions.js'
+
+export type StepStatus = 'ok' | 'failed' | 'skipped'
+
+export interface UpdateStep {
+  name: string
+  status: StepStatus
+  detail?: string
+  /** The end of the failed command's output */
+  output?: string
+}
+
+export interface UpdateReport {
+  ok: boolean
+  fromCommit: string
+  /** Branch checked out before the update, if HEAD was not detached */
+  fromBranch?: string
+  target?: string
+  toCommit?: string
+  backupFile?: string
+  steps: UpdateStep[]
+  /** Present when a failed update was rolled back */
+  rollback?: UpdateStep[]
+}
+
+export interface UpdateOptions {
+  install: InstallState
+  service: ServiceManager
+  /** Replaces the install's recorded pin for this and later updates */
+  pin?: VersionPin
+  skipBackup?: boolean
+  /** Offline bundle to update from instead of the install's git remote */
+  bundle?: string
+  onProgress?: (message: string) => void
+}
+
+function currentBranch(dir: string): string | undefined {
+  try {
+    return runCommand('git', ['symbolic-ref', '--short', '-q', 'HEAD'], { cwd: dir }) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+function createRecorder(steps: UpdateStep[], onProgress?: (message: string) => void) {
+  return async (name: string, fn: () => unknown | Promise<unknown>): Promise<void> => {
+    onProgress?.(`${name}...`)
+    try {
+      await fn()
+      steps.push({ name, status: 'ok' })
+    } catch (err) {
+      steps.push(err instanceof CommandError
+        ? { name, status: 'failed', detail: err.summary, ...(err.tail && { output: err.tail }) }
+        : { name, status: 'failed', detail: (err as Error).message })
+      throw err
+    }
+  }
+}
+
+async function rollback(
+  options: UpdateOptions,
+  report: UpdateReport,
+  wasRunning: boolean,
+): Promise<UpdateStep[]> {
+  const { installDir, databaseUrl, port } = options.install
+  const steps: UpdateStep[] = []
+  const record = createRecorder(steps, options.onProgress)
+  // Keep going after a failed rollback step; each one makes things less broken
+  const attempt = (name: string, fn: () => unknown | Promise<unknown>) => record(name, fn).catch(() => {})
+
+  await attempt(`Reset code to ${report.fromBranch ?? report.fromCommit.slice(0, 7)}`, async () => {
+    if (report.fromBranch) {
+      await runCommandAsync('git', ['checkout', '--force', report.fromBranch], { cwd: installDir })
+      await runCommandAsync('git', ['reset', '--hard', report.fromCommit], { cwd: installDir })
+    } else {
+      await runCommandAsync('git', ['checkout', '--force', '--detach', report.fromCommit], { cwd: installDir })
+    }
+  })
+  if (options.bundle) {
+    await attempt('Restore previous dependencies', () => restoreDependencies(installDir))
+  } else {
+    await attempt('Reinstall dependencies', () => runCommandAsync('npm', ['install'], { cwd: installDir }))
+  }
+  await attempt('Regenerate Prisma client', () => runCommandAsync('npx', ['prisma', 'generate'], { cwd: installDir }))
+
+  const cliDir = join(installDir, 'cli')
+  if (existsSync(cliDir) && !options.bundle) {
+    await attempt('Reinstall ocb CLI', () => runCommandAsync('npm', ['install'], { cwd: cliDir }))
+  }
+
+  if (report.backupFile && databaseUrl) {
+    await attempt('Restore database', () => restoreDatabase(databaseUrl, report.backupFile!))
+  }
+
+  if (wasRunning) {
+    await attempt('Restart previous version', async () => {
+      await options.service.restart()
+      const health = await waitForHealthy(port, { service: options.service, host: options.install.host, token: options.install.adminToken })
+      if (health.state !== 'running') {
+        throw new Error(`board is ${health.state}${health.detail ? ` (${health.detail})` : ''}`)
+      }
+    })
+  }
+
+  return steps
+}
+
+/**
+ * Updates an install in place. The current commit and database are saved
+ * first; if any step or the post-update health check fails, the code,
+ * dependencies and database are put back and the old version restarted.
+ * With a bundle, nothing is fetched from the network.
+ */
+export async function performUpdate(options: UpdateOptions): Promise<UpdateReport> {
+  let bundle: UnpackedBundle | undefined
+  try {
+    return await applyUpdate(options, (unpacked) => { bundle = unpacked })
+  } finally {
+    if (bundle) discardBundle(bundle)
+    discardSavedDependencies(options.install.installDir)
+  }
+}
+
+async function applyUpdate(options: UpdateOptions, onUnpacked: (bundle: UnpackedBundle) => void): Promise<UpdateReport> {
+  const { installDir, databaseUrl, port, host, adminToken: token } = options.install
+  const { service } = options
+
+  const report: UpdateReport = {
+    ok: false,
+    fromCommit: runCommand('git', ['rev-parse', 'HEAD'], { cwd: installDir }),
+    fromBranch: currentBranch(installDir),
+    steps: [],
+  }
+  const record = createRecorder(report.steps, options.onProgress)
+  const pin = options.pin ?? options.install.pin
+
+  let resolved: CheckoutTarget | undefined
+  let bundle: UnpackedBundle | undefined
+  if (options.bundle) {
+    await record(`Unpack ${basename(options.bundle)}`, async () => {
+      bundle = await unpackBundle(options.bundle!)
+      onUnpacked(bundle)
+      resolved = { kind: 'commit', sha: bundle.manifest.commit }
+    }).catch(() => {})
+  } else {
+    await record(`Resolve ${describePin(pin)}`, () => {
+      resolved = resolveTarget(pin, listRemoteRefs('origin', installDir))
+    }).catch(() => {})
+  }
+  if (!resolved) return report
+  const target = resolved
+  report.target = bundle ? bundle.manifest.target : describeTarget(target)
+
+  const health = await probeHealth(port, { service, host, token })
+  const wasRunning = health.state === 'running' || health.state === 'starting' || health.state === 'unhealthy'
+
+  // Nothing has changed yet, so a failed backup just aborts the update
+  if (options.skipBackup || !databaseUrl) {
+    report.steps.push({ name: 'Back up database', status: 'skipped', detail: databaseUrl ? 'skipped by request' : 'no DATABASE_URL' })
+  } else {
+    try {
+      await record('Back up database', async () => {
+        report.backupFile = (await createBackup(installDir, databaseUrl, 'pre-update')).file
+      })
+    } catch {
+      return report
+    }
+  }
+
+  try {
+    await record(`Check out ${report.target}`, () => bundle ? checkoutFromBundle(installDir, bundle) : checkoutTarget(installDir, target))
+    await record('Install dependencies', () => bundle ? swapDependencies(installDir, bundle) : runCommandAsync('npm', ['install'], { cwd: installDir }))
+    await record('Generate Prisma client', () => runCommandAsync('npx', ['prisma', 'generate'], { cwd: installDir }))
+    await record('Apply database schema', () => runCommandAsync('npx', ['prisma', 'db', 'push'], { cwd: installDir }))
+
+    const cliDir = join(installDir, 'cli')
+    if (existsSync(cliDir)) {
+      await record('Update ocb CLI', async () => {
+        if (!bundle) await runCommandAsync('npm', ['install'], { cwd: cliDir })
+        await runCommandAsync('npm', bundle ? ['link', '--offline'] : ['link'], { cwd: cliDir })
+      })
+    }
+
+    if (wasRunning) {
+      await record('Restart board', () => service.restart())
+      await record('Health check', async () => {
+        const after = await waitForHealthy(port, { service, host, token })
+        // A board that was already starting or unhealthy passes if it is no worse than before
+        if (after.state !== 'running' && after.state !== health.state) {
+          throw new Error(`board is ${after.state}${after.detail ? ` (${after.detail})` : ''}`)
+        }
+      })
+    } else {
+      report.steps.push({ name: 'Health check', status: 'skipped', detail: 'board was not running' })
+    }
+  } catch {
+    report.rollback = await rollback(options, report, wasRunning)
+    return report
+  }
+
+  const checkout = describeCheckout(installDir)
+  report.toCommit = checkout.commit
+  report.ok = true
+  pruneBackups(installDir, DEFAULT_BACKUP_RETENTION)
+  updateState(options.install, { ...checkout, ...(options.pin && { pin: options.pin }), updatedAt: new Date().toISOString() })
+  return report
+}
+
+function formatStep(step: UpdateStep): string {
+  const icon = step.status === 'ok' ? pc.green('✓') : step.status === 'failed' ? pc.red('✗') : pc.dim('–')
+  const line = `  ${icon} ${step.name}${step.detail ? pc.dim(` (${step.detail})`) : ''}`
+  return step.output ? `${line}\n${pc.dim(step.output.replace(/^/gm, '    '))}` : line
+}
+
+export function formatUpdateReport(report: UpdateReport): string[] {
+  const lines = [pc.bold('Update steps:'), ...report.steps.map(formatStep)]
+
+  if (report.rollback) {
+    lines.push('', pc.bold('Rollback:'), ...report.rollback.map(formatStep))
+  }
+
+  lines.push('')
+  if (report.ok) {
+    const to = report.toCommit ? report.toCommit.slice(0, 7) : 'unknown'
+    lines.push(pc.green(`Updated ${report.fromCommit.slice(0, 7)} → ${to}${report.target ? ` (${report.target})` : ''}`))
+  } else if (report.rollback) {
+    const clean = report.rollback.every(step => step.status === 'ok')
+    lines.push(clean
+      ? pc.yellow(`Update failed; rolled back to ${report.fromCommit.slice(0, 7)}`)
+      : pc.red('Update failed and the rollback was incomplete; see the steps above'))
+  } else {
+    lines.push(pc.red('Update aborted before any changes were made'))
+  }
+  if (report.backupFile) {
+    lines.push(pc.dim(`Database backup: ${report.backupFile}`))
+  }
+
+  return lines
+}
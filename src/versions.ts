@@ -0,0 +1,189 @@
+import { ExitCode, InstallerError } from './errors.js'
+import { runCommand, runCommandAsync } from './exec.js'
+
+export const REPO_URL = 'https://github.com/finchinslc/openclaw-board.git'
+
+export const CHANNELS = ['stable', 'beta', 'main'] as const
+export type Channel = (typeof CHANNELS)[number]
+
+/** What an install tracks. Exactly one field is set; no pin means the main branch. */
+export interface VersionPin {
+  channel?: Channel
+  version?: string
+  ref?: string
+}
+
+export type CheckoutTarget =
+  | { kind: 'branch'; name: string }
+  | { kind: 'tag'; name: string }
+  | { kind: 'commit'; sha: string }
+
+const SEMVER = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/
+
+export function parsePin(values: { channel?: unknown; version?: unknown; ref?: unknown }, source: string): VersionPin | undefined {
+  const given = (['channel', 'version', 'ref'] as const).filter(key => values[key] !== undefined && values[key] !== '')
+  if (given.length === 0) return undefined
+  if (given.length > 1) {
+    throw new InstallerError(`${source}: use only one of channel, version and ref`, ExitCode.InvalidConfig)
+  }
+
+  if (values.channel !== undefined) {
+    const channel = String(values.channel).trim().toLowerCase()
+    if (!(CHANNELS as readonly string[]).includes(channel)) {
+      throw new InstallerError(`${source}: channel must be one of ${CHANNELS.join(', ')}`, ExitCode.InvalidConfig)
+    }
+    return { channel: channel as Channel }
+  }
+  if (values.version !== undefined) {
+    return { version: String(values.version).trim() }
+  }
+  return { ref: String(values.ref).trim() }
+}
+
+export function describePin(pin: VersionPin | undefined): string {
+  if (pin?.version) return `version ${pin.version}`
+  if (pin?.ref) return `ref ${pin.ref}`
+  return `${pin?.channel ?? 'main'} channel`
+}
+
+function compareSemver(a: string, b: string): number {
+  const ma = a.match(SEMVER)!
+  const mb = b.match(SEMVER)!
+  for (let i = 1; i <= 3; i++) {
+    const diff = parseInt(ma[i], 10) - parseInt(mb[i], 10)
+    if (diff !== 0) return diff
+  }
+  // A release sorts after its prereleases
+  if (!ma[4] || !mb[4]) return ma[4] ? -1 : mb[4] ? 1 : 0
+  return ma[4].localeCompare(mb[4], undefined, { numeric: true })
+}
+
+/** Newest tag on a channel: stable skips prereleases, beta includes them. */
+export function pickTag(tags: string[], channel: 'stable' | 'beta'): string | undefined {
+  return tags
+    .filter(tag => {
+      const match = tag.match(SEMVER)
+      return match && (channel === 'beta' || !match[4])
+    })
+    .sort(compareSemver)
+    .pop()
+}
+
+export interface RemoteRefs {
+  tags: string[]
+  /** Branch name to the commit it points at */
+  branches: Map<string, string>
+}
+
+/** Lists tags and branches from a remote URL or, with a directory, from its origin. */
+export function listRemoteRefs(source: string, cwd?: string): RemoteRefs {
+  const output = runCommand('git', ['ls-remote', '--tags', '--heads', '--refs', source], { cwd, timeout: 15_000, quiet: true })
+  const refs: RemoteRefs = { tags: [], branches: new Map() }
+  for (const line of output.split('\n')) {
+    const [sha, ref] = line.split('\t')
+    if (ref?.startsWith('refs/tags/')) refs.tags.push(ref.slice('refs/tags/'.length))
+    else if (ref?.startsWith('refs/heads/')) refs.branches.set(ref.slice('refs/heads/'.length), sha.trim())
+  }
+  return refs
+}
+
+export function resolveTarget(pin: VersionPin | undefined, refs: RemoteRefs = { tags: [], branches: new Map() }): CheckoutTarget {
+  const { tags } = refs
+  if (pin?.channel === 'stable' || pin?.channel === 'beta') {
+    const tag = pickTag(tags, pin.channel)
+    if (!tag) {
+      throw new InstallerError(`No ${pin.channel} release tags found`, ExitCode.InvalidConfig)
+    }
+    return { kind: 'tag', name: tag }
+  }
+
+  if (pin?.version) {
+    const wanted = pin.version
+    const tag = tags.find(t => t === wanted) ?? tags.find(t => t.replace(/^v/, '') === wanted.replace(/^v/, ''))
+    if (!tag) {
+      throw new InstallerError(`Version ${wanted} not found. Available: ${tags.slice(-10).join(', ') || 'none'}`, ExitCode.InvalidConfig)
+    }
+    return { kind: 'tag', name: tag }
+  }
+
+  if (pin?.ref) {
+    // A branch or tag can look like a SHA, so names on the remote win
+    if (tags.includes(pin.ref)) return { kind: 'tag', name: pin.ref }
+    if (refs.branches.has(pin.ref)) return { kind: 'branch', name: pin.ref }
+    if (/^[0-9a-f]{7,40}$/i.test(pin.ref)) return { kind: 'commit', sha: pin.ref }
+    return { kind: 'branch', name: pin.ref }
+  }
+
+  return { kind: 'branch', name: 'main' }
+}
+
+export function describeTarget(target: CheckoutTarget): string {
+  return target.kind === 'commit' ? target.sha.slice(0, 7) : target.name
+}
+
+/** Moves the checkout in `dir` to the target, fetching what it needs first. */
+export async function checkoutTarget(dir: string, target: CheckoutTarget): Promise<void> {
+  await runCommandAsync('git', ['fetch', '--tags', 'origin'], { cwd: dir })
+  switch (target.kind) {
+    case 'branch':
+      await runCommandAsync('git', ['checkout', target.name], { cwd: dir })
+      await runCommandAsync('git', ['pull', 'origin', target.name], { cwd: dir })
+      break
+    case 'tag':
+      await runCommandAsync('git', ['checkout', '--detach', `refs/tags/${target.name}`], { cwd: dir })
+      break
+    case 'commit':
+      await runCommandAsync('git', ['checkout', '--detach', target.sha], { cwd: dir })
+      break
+  }
+}
+
+/** The tag HEAD sits on, if any. */
+export function currentTag(dir: string): string | undefined {
+  try {
+    return runCommand('git', ['describe', '--tags', '--exact-match', 'HEAD'], { cwd: dir })
+  } catch {
+    return undefined
+  }
+}
+
+export interface AvailableUpdate {
+  current: string
+  latest?: string
+  updateAvailable: boolean
+}
+
+/**
+ * Compares the checkout with what its pin would resolve to on the remote.
+ * Throws if the remote cannot be reached.
+ */
+export function checkForUpdate(dir: string, pin: VersionPin | undefined): AvailableUpdate {
+  const head = runCommand('git', ['rev-parse', 'HEAD'], { cwd: dir })
+  const tag = currentTag(dir)
+  const current = tag ?? head.slice(0, 7)
+  const refs = listRemoteRefs('origin', dir)
+  const { tags } = refs
+  const target = resolveTarget(pin, refs)
+
+  // Pinned to a fixed release or commit: report the newest stable release for reference
+  if (pin?.version || (pin?.ref && target.kind !== 'branch')) {
+    const latest = pickTag(tags, 'stable')
+    const newer = Boolean(latest && tag && SEMVER.test(tag) && compareSemver(latest, tag) > 0)
+    return { current, latest, updateAvailable: newer }
+  }
+
+  if (target.kind === 'tag') {
+    return { current, latest: target.name, updateAvailable: target.name !== tag }
+  }
+
+  if (target.kind === 'branch') {
+    const remote = refs.branches.get(target.name)
+    return {
+      current,
+      latest: remote ? `${target.name}@${remote.slice(0, 7)}` : undefined,
+      updateAvailable: Boolean(remote) && remote !== head,
+    }
+  }
+
+  return { current, updateAvailable: false }
+}
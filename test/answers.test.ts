@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import { parseInstallArgs } from '../src/answers.js'
+import { ExitCode, InstallerError } from '../src/errors.js'
+
+const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-test-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+function answersFile(name: string, content: string): string {
+  const file = join(dir, name)
+  writeFileSync(file, content)
+  return file
+}
+
+describe('parseInstallArgs', () => {
+  it('takes flags over environment variables over the answers file', () => {
+    const file = answersFile('answers.yaml', 'port: 4100\ndbName: from_file\ndbUser: file_user\nautoStart: false\n')
+    const env = { OPENCLAW_BOARD_PORT: '4200', OPENCLAW_BOARD_DB_NAME: 'from_env' }
+    const { answers, nonInteractive } = parseInstallArgs(['--answers', file, '--port', '4300'], env)
+    assert.equal(answers.port, 4300)
+    assert.equal(answers.dbName, 'from_env')
+    assert.equal(answers.dbUser, 'file_user')
+    assert.equal(answers.autoStart, false)
+    assert.equal(nonInteractive, true)
+  })
+
+  it('finds the answers file through the environment', () => {
+    const file = answersFile('answers.json', JSON.stringify({ port: 4400, database: 'docker' }))
+    const { answers } = parseInstallArgs([], { OPENCLAW_BOARD_ANSWERS: file })
+    assert.equal(answers.port, 4400)
+    assert.equal(answers.database, 'docker')
+  })
+
+  it('lets a flag pin replace the pin from the file', () => {
+    const file = answersFile('pin.yaml', 'channel: beta\n')
+    assert.deepEqual(parseInstallArgs(['--answers', file], {}).answers.pin, { channel: 'beta' })
+    assert.deepEqual(parseInstallArgs(['--answers', file, '--version', 'v1.2.0'], {}).answers.pin, { version: 'v1.2.0' })
+  })
+
+  it('reads negated boolean flags', () => {
+    const { answers } = parseInstallArgs(['--no-auto-start', '--no-admin-token'], { OPENCLAW_BOARD_AUTO_START: 'yes' })
+    assert.equal(answers.autoStart, false)
+    assert.equal(answers.adminToken, false)
+  })
+
+  it('names where an invalid value came from', () => {
+    const invalid = (argv: string[], env: NodeJS.ProcessEnv, source: RegExp) =>
+      assert.throws(() => parseInstallArgs(argv, env), (err: unknown) => {
+        assert.ok(err instanceof InstallerError)
+        assert.equal(err.exitCode, ExitCode.InvalidConfig)
+        assert.match(err.message, source)
+        return true
+      })
+    invalid(['--port', '4000abc'], {}, /^--port:/)
+    invalid([], { OPENCLAW_BOARD_PORT: '70000' }, /^OPENCLAW_BOARD_PORT:/)
+    invalid(['--answers', answersFile('bad.yaml', 'logKeep: 0\n')], {}, /^answers file "logKeep":/)
+  })
+
+  it('refuses a bundle together with a pin', () => {
+    assert.throws(() => parseInstallArgs(['--from-bundle', 'board.tar.gz', '--channel', 'stable'], {}), /drop --channel/)
+  })
+})
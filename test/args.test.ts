@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseDuration, parseSize, splitCommand } from '../src/args.js'
+
+describe('parseDuration', () => {
+  it('reads single units', () => {
+    assert.equal(parseDuration('90s'), 90_000)
+    assert.equal(parseDuration('15m'), 15 * 60_000)
+    assert.equal(parseDuration('2h'), 2 * 3_600_000)
+    assert.equal(parseDuration('7d'), 7 * 86_400_000)
+    assert.equal(parseDuration('1w'), 604_800_000)
+  })
+
+  it('adds up combined units', () => {
+    assert.equal(parseDuration('1h30m'), 90 * 60_000)
+    assert.equal(parseDuration('1d12h'), 36 * 3_600_000)
+  })
+
+  it('rejects anything else', () => {
+    for (const text of ['', '10', 'm', '1.5h', '5y', '1h 30m', '-1d', '1hx']) {
+      assert.equal(parseDuration(text), undefined, text)
+    }
+  })
+})
+
+describe('parseSize', () => {
+  it('reads plain bytes and binary units', () => {
+    assert.equal(parseSize('512'), 512)
+    assert.equal(parseSize('500K'), 500 * 1024)
+    assert.equal(parseSize('10M'), 10 * 1024 ** 2)
+    assert.equal(parseSize('1gb'), 1024 ** 3)
+  })
+
+  it('rejects anything else', () => {
+    assert.equal(parseSize('10T'), undefined)
+    assert.equal(parseSize('M'), undefined)
+  })
+})
+
+describe('splitCommand', () => {
+  it('finds the command after global flags', () => {
+    assert.deepEqual(splitCommand(['--json', 'status']), { command: 'status', args: ['--json'] })
+    assert.deepEqual(splitCommand(['--instance', 'foo', 'status', '-n', '5']), {
+      command: 'status',
+      args: ['--instance', 'foo', '-n', '5'],
+    })
+  })
+
+  it('has no command when only flags are given', () => {
+    assert.deepEqual(splitCommand(['--non-interactive', '--port', '4000']), {
+      args: ['--non-interactive', '--port', '4000'],
+    })
+  })
+})
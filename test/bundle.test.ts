@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { BUNDLE_FORMAT, BUNDLE_VERSION, checkManifest } from '../src/bundle.js'
+import { ExitCode, InstallerError } from '../src/errors.js'
+
+const manifest = (overrides: Record<string, unknown> = {}) => ({
+  format: BUNDLE_FORMAT,
+  formatVersion: BUNDLE_VERSION,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  source: 'https://github.com/finchinslc/openclaw-board.git',
+  target: 'v1.2.0',
+  commit: 'abc1234def5678',
+  platform: process.platform,
+  arch: process.arch,
+  node: 20,
+  ...overrides,
+})
+
+function rejects(data: unknown, reason: RegExp): void {
+  assert.throws(() => checkManifest(data, 'board.tar.gz'), (err: unknown) => {
+    assert.ok(err instanceof InstallerError)
+    assert.equal(err.exitCode, ExitCode.InvalidConfig)
+    assert.match(err.message, reason)
+    return true
+  })
+}
+
+describe('checkManifest', () => {
+  it('accepts a manifest built for this machine', () => {
+    assert.deepEqual(checkManifest(manifest(), 'board.tar.gz'), manifest())
+  })
+
+  it('refuses anything that is not a bundle manifest', () => {
+    rejects(null, /not an OpenClaw Board bundle/)
+    rejects('openclaw-board-bundle', /not an OpenClaw Board bundle/)
+    rejects(manifest({ format: 'openclaw-board-export' }), /not an OpenClaw Board bundle/)
+  })
+
+  it('refuses newer or missing format versions', () => {
+    rejects(manifest({ formatVersion: BUNDLE_VERSION + 1 }), /format version \d+ is not supported/)
+    rejects(manifest({ formatVersion: '1' }), /is not supported/)
+  })
+
+  it('refuses incomplete manifests', () => {
+    rejects(manifest({ commit: undefined }), /incomplete manifest/)
+    rejects(manifest({ platform: 7 }), /incomplete manifest/)
+  })
+
+  it('refuses bundles built for another platform or architecture', () => {
+    const other = process.platform === 'linux' ? 'darwin' : 'linux'
+    rejects(manifest({ platform: other }), new RegExp(`built for ${other}-${process.arch} and cannot run`))
+    rejects(manifest({ arch: 'mips' }), /built for .*-mips and cannot run/)
+  })
+})
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { mergeByTime, type LogLine } from '../src/logs.js'
+
+const at = (stream: LogLine['stream'], text: string, time?: string): LogLine =>
+  ({ stream, text, ...(time && { time: new Date(time) }) })
+
+describe('mergeByTime', () => {
+  it('interleaves streams by timestamp', () => {
+    const stdout = [at('stdout', 'a', '2026-01-01T00:00:01Z'), at('stdout', 'c', '2026-01-01T00:00:03Z')]
+    const stderr = [at('stderr', 'b', '2026-01-01T00:00:02Z'), at('stderr', 'd', '2026-01-01T00:00:04Z')]
+    assert.deepEqual(mergeByTime([stdout, stderr]).map(line => line.text), ['a', 'b', 'c', 'd'])
+  })
+
+  it("keeps each stream's own order even when its timestamps go backwards", () => {
+    const stdout = [at('stdout', 'late', '2026-01-01T00:00:05Z'), at('stdout', 'early', '2026-01-01T00:00:01Z')]
+    assert.deepEqual(mergeByTime([stdout, []]).map(line => line.text), ['late', 'early'])
+  })
+
+  it('sorts lines without a timestamp first and keeps untimed continuation lines in place', () => {
+    const stdout = [at('stdout', 'banner'), at('stdout', 'x', '2026-01-01T00:00:02Z'), at('stdout', '  at stack')]
+    const stderr = [at('stderr', 'y', '2026-01-01T00:00:01Z')]
+    assert.deepEqual(mergeByTime([stdout, stderr]).map(line => line.text), ['banner', 'y', 'x', '  at stack'])
+  })
+
+  it('prefers the earlier stream on equal timestamps', () => {
+    const time = '2026-01-01T00:00:01Z'
+    assert.deepEqual(
+      mergeByTime([[at('stdout', 'out', time)], [at('stderr', 'err', time)]]).map(line => line.stream),
+      ['stdout', 'stderr'],
+    )
+  })
+})
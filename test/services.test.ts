@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict'
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, afterEach, describe, it } from 'node:test'
+import { createDryRunService, selectServiceManager, type ServiceManager } from '../src/services/index.js'
+import { renderPlist, renderRotatePlist, unescapePlist } from '../src/services/launchd.js'
+import { installRotateJob, rotateJobEntry } from '../src/services/rotate-job.js'
+import { renderUnit } from '../src/services/systemd.js'
+
+describe('renderPlist', () => {
+  it('runs npm start in the install directory with the port and log files', () => {
+    const plist = renderPlist('com.openclaw.board', '/opt/homebrew/bin/npm', '/Users/me/openclaw-board', 4000)
+    assert.match(plist, /<key>Label<\/key>\s*<string>com\.openclaw\.board<\/string>/)
+    assert.match(plist, /<array>\s*<string>\/opt\/homebrew\/bin\/npm<\/string>\s*<string>start<\/string>\s*<\/array>/)
+    assert.match(plist, /<key>WorkingDirectory<\/key>\s*<string>\/Users\/me\/openclaw-board<\/string>/)
+    assert.match(plist, /<key>PORT<\/key>\s*<string>4000<\/string>/)
+    assert.match(plist, /<key>StandardOutPath<\/key>\s*<string>\/Users\/me\/openclaw-board\/logs\/stdout\.log<\/string>/)
+    assert.match(plist, /<key>StandardErrorPath<\/key>\s*<string>\/Users\/me\/openclaw-board\/logs\/stderr\.log<\/string>/)
+    assert.doesNotMatch(plist, /<key>HOST<\/key>/)
+  })
+
+  it('exports HOST only when one is set', () => {
+    const plist = renderPlist('com.openclaw.board', '/usr/local/bin/npm', '/Users/me/openclaw-board', 4000, '0.0.0.0')
+    assert.match(plist, /<key>HOST<\/key>\s*<string>0\.0\.0\.0<\/string>/)
+  })
+
+  it('escapes XML in paths and arguments', () => {
+    const plist = renderPlist('com.openclaw.board', '/usr/local/bin/npm', `/Users/me/R&D <"board's">`, 4000)
+    assert.match(plist, /<string>\/Users\/me\/R&amp;D &lt;&quot;board&apos;s&quot;&gt;<\/string>/)
+    assert.equal(unescapePlist(plist).includes(`/Users/me/R&D <"board's">/logs/stdout.log`), true)
+
+    const rotate = renderRotatePlist('com.openclaw.board.logrotate', ['/usr/bin/node', '/a&b/logrotate.js'])
+    assert.match(rotate, /<string>\/a&amp;b\/logrotate\.js<\/string>/)
+  })
+})
+
+describe('renderUnit', () => {
+  it('runs npm start in the install directory with the port and log files', () => {
+    const unit = renderUnit('/usr/bin/npm', '/home/me/openclaw-board', 4000)
+    assert.match(unit, /^WorkingDirectory=\/home\/me\/openclaw-board$/m)
+    assert.match(unit, /^ExecStart=\/usr\/bin\/npm start$/m)
+    assert.match(unit, /^Environment=PORT=4000$/m)
+    assert.match(unit, /^StandardOutput=append:\/home\/me\/openclaw-board\/logs\/stdout\.log$/m)
+    assert.match(unit, /^StandardError=append:\/home\/me\/openclaw-board\/logs\/stderr\.log$/m)
+    assert.match(unit, /^WantedBy=default\.target$/m)
+    assert.doesNotMatch(unit, /HOST=/)
+  })
+
+  it('exports HOST only when one is set', () => {
+    assert.match(renderUnit('/usr/bin/npm', '/home/me/openclaw-board', 4000, '0.0.0.0'), /^Environment=HOST=0\.0\.0\.0$/m)
+  })
+
+  it('quotes ExecStart and Environment but leaves path settings unquoted', () => {
+    const unit = renderUnit('/opt/node 20/bin/npm', '/home/me/my board 100%', 4000)
+    assert.match(unit, /^ExecStart="\/opt\/node 20\/bin\/npm" start$/m)
+    assert.match(unit, /^Environment="PATH=\/opt\/node 20\/bin:/m)
+    assert.match(unit, /^WorkingDirectory=\/home\/me\/my board 100%%$/m)
+    assert.match(unit, /^StandardOutput=append:\/home\/me\/my board 100%%\/logs\/stdout\.log$/m)
+  })
+
+  it('keeps restarting until the database is up instead of ordering after it', () => {
+    const unit = renderUnit('/usr/bin/npm', '/home/me/openclaw-board', 4000)
+    assert.doesNotMatch(unit, /postgresql\.service/)
+    assert.match(unit, /^StartLimitIntervalSec=0$/m)
+    assert.match(unit, /^Restart=always$/m)
+  })
+})
+
+describe('createDryRunService', () => {
+  const target = (calls: string[]): ServiceManager => {
+    const action = (name: string) => async () => {
+      calls.push(name)
+    }
+    return {
+      name: 'process',
+      autoStart: false,
+      isInstalled: () => true,
+      install: action('install'),
+      uninstall: action('uninstall'),
+      start: action('start'),
+      stop: action('stop'),
+      restart: action('restart'),
+      status: async () => ({ state: 'running', pid: 42 }),
+    }
+  }
+
+  it('records actions in order without performing them', async () => {
+    const calls: string[] = []
+    const service = createDryRunService(target(calls), { quiet: true })
+    await service.install()
+    await service.stop()
+    await service.start()
+    await service.restart()
+    await service.uninstall()
+    assert.deepEqual(service.recorded, ['install', 'stop', 'start', 'restart', 'uninstall'])
+    assert.deepEqual(calls, [])
+  })
+
+  it('answers queries from the real backend', async () => {
+    const service = createDryRunService(target([]), { quiet: true })
+    assert.equal(service.isInstalled(), true)
+    assert.deepEqual(await service.status(), { state: 'running', pid: 42 })
+    assert.equal(service.autoStart, false)
+  })
+})
+
+describe('selectServiceManager', () => {
+  const ctx = { installDir: '/home/me/openclaw-board', port: 4000 }
+  const saved = process.env.OPENCLAW_BOARD_SERVICE
+  afterEach(() => {
+    if (saved === undefined) delete process.env.OPENCLAW_BOARD_SERVICE
+    else process.env.OPENCLAW_BOARD_SERVICE = saved
+  })
+
+  it('uses the recorded backend', () => {
+    delete process.env.OPENCLAW_BOARD_SERVICE
+    assert.equal(selectServiceManager(ctx, { backend: 'systemd' }).name, 'systemd')
+  })
+
+  it('lets OPENCLAW_BOARD_SERVICE force a backend or a dry run', () => {
+    process.env.OPENCLAW_BOARD_SERVICE = 'process'
+    assert.equal(selectServiceManager(ctx, { backend: 'launchd' }).name, 'process')
+
+    process.env.OPENCLAW_BOARD_SERVICE = 'dry-run'
+    const service = selectServiceManager(ctx, { backend: 'launchd' })
+    assert.equal(service.name, 'dry-run')
+    assert.equal(service.definitionPath?.endsWith('.plist'), true)
+  })
+
+  it('wraps the choice in a recorder for --dry-run', () => {
+    delete process.env.OPENCLAW_BOARD_SERVICE
+    assert.equal(selectServiceManager(ctx, { backend: 'process', dryRun: true }).name, 'dry-run')
+  })
+
+  it('refuses an unknown backend', () => {
+    process.env.OPENCLAW_BOARD_SERVICE = 'upstart'
+    assert.throws(() => selectServiceManager(ctx), /OPENCLAW_BOARD_SERVICE must be one of/)
+  })
+})
+
+describe('installRotateJob', () => {
+  const installDir = mkdtempSync(join(tmpdir(), 'openclaw-board-test-'))
+  after(() => rmSync(installDir, { recursive: true, force: true }))
+
+  it('copies a job into the install that rotates logs on its own', () => {
+    const logs = join(installDir, 'logs')
+    mkdirSync(logs)
+    writeFileSync(join(logs, 'stdout.log'), 'x'.repeat(2048))
+
+    const [node, ...args] = installRotateJob({ installDir, logRotation: { maxBytes: 1024, maxAgeMs: 86_400_000, keep: 5 } })
+    assert.ok(args.includes(rotateJobEntry(installDir)))
+    assert.ok(rotateJobEntry(installDir).startsWith(join(installDir, 'bin')))
+    // From the repo, so a tsx loader in the arguments still resolves
+    execFileSync(node, args, { cwd: process.cwd() })
+
+    assert.equal(readFileSync(join(logs, 'stdout.log'), 'utf-8'), '')
+    assert.equal(readdirSync(logs).filter(name => name.endsWith('.gz')).length, 1)
+  })
+})
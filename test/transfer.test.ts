@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import { ExitCode, InstallerError } from '../src/errors.js'
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, readArchive } from '../src/transfer.js'
+
+const dir = mkdtempSync(join(tmpdir(), 'openclaw-board-test-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let files = 0
+function write(content: unknown): string {
+  const file = join(dir, `export-${++files}.json`)
+  writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content))
+  return file
+}
+
+const table = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Task',
+  primaryKey: ['id'],
+  columns: ['id', 'title'],
+  references: [],
+  rows: [{ id: 1, title: 'First' }, { id: 2, title: 'Second' }],
+  ...overrides,
+})
+
+const archive = (overrides: Record<string, unknown> = {}) => ({
+  format: ARCHIVE_FORMAT,
+  formatVersion: ARCHIVE_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  board: { version: 'v1.2.0', commit: 'abc1234' },
+  schema: { version: 'deadbeef0000' },
+  tables: [table()],
+  ...overrides,
+})
+
+function rejects(content: unknown, reason: RegExp): void {
+  assert.throws(() => readArchive(write(content)), (err: unknown) => {
+    assert.ok(err instanceof InstallerError)
+    assert.equal(err.exitCode, ExitCode.InvalidConfig)
+    assert.match(err.message, reason)
+    return true
+  })
+}
+
+describe('readArchive', () => {
+  it('reads a well-formed export', () => {
+    const read = readArchive(write(archive()))
+    assert.equal(read.board.version, 'v1.2.0')
+    assert.equal(read.schema.version, 'deadbeef0000')
+    assert.deepEqual(read.tables, [table()])
+  })
+
+  it('fills in what older exports leave out', () => {
+    const { references: _, ...noReferences } = table()
+    const read = readArchive(write(archive({ board: undefined, schema: undefined, tables: [noReferences] })))
+    assert.deepEqual(read.board, { version: null, commit: null })
+    assert.deepEqual(read.schema, { version: null })
+    assert.deepEqual(read.tables[0].references, [])
+  })
+
+  it('refuses files that are missing or not JSON', () => {
+    rejects('{ not json', /Cannot read export/)
+    assert.throws(() => readArchive(join(dir, 'missing.json')), /file not found/)
+  })
+
+  it('refuses other formats and newer versions', () => {
+    rejects({ ...archive(), format: 'something-else' }, /not an OpenClaw Board export/)
+    rejects({ ...archive(), formatVersion: 0 }, /missing format version/)
+    rejects({ ...archive(), formatVersion: ARCHIVE_VERSION + 1 }, /newer than this installer supports/)
+    rejects({ ...archive(), tables: undefined }, /missing tables/)
+  })
+
+  it('refuses malformed tables', () => {
+    rejects(archive({ tables: [{ columns: ['id'] }] }), /table 1 has no name/)
+    rejects(archive({ tables: [table({ columns: [] })] }), /table Task has no column list/)
+    rejects(archive({ tables: [table({ primaryKey: ['missing'] })] }), /table Task has an invalid primary key/)
+    rejects(archive({ tables: [table({ references: 'Column' })] }), /table Task has an invalid reference list/)
+    rejects(archive({ tables: [table({ rows: {} })] }), /table Task has no rows list/)
+    rejects(archive({ tables: [table(), table()] }), /table Task appears twice/)
+  })
+
+  it('refuses malformed rows', () => {
+    rejects(archive({ tables: [table({ rows: [[1, 'First']] })] }), /row 1 of Task is not an object/)
+    rejects(archive({ tables: [table({ rows: [{ id: 1, owner: 'x' }] })] }), /row 1 of Task has a column not in its column list: owner/)
+    rejects(archive({ tables: [table({ rows: [{ id: 1 }, { id: 1 }] })] }), /table Task has two rows with the key \[1\]/)
+  })
+
+  it('allows repeated rows in tables without a primary key', () => {
+    const read = readArchive(write(archive({ tables: [table({ primaryKey: [], rows: [{ id: 1 }, { id: 1 }] })] })))
+    assert.equal(read.tables[0].rows.length, 2)
+  })
+})